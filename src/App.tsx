@@ -1,78 +1,74 @@
 import React, { useEffect, useState } from 'react';
 import {
-  Box, Container, createTheme, ThemeProvider, CssBaseline, IconButton, Tooltip, AppBar, Toolbar,
-  Typography, Drawer, Fab, CircularProgress,
+  Box, Container, ThemeProvider, CssBaseline, IconButton, Tooltip, AppBar, Toolbar,
+  Typography, Drawer, Fab, Dialog, ToggleButtonGroup, ToggleButton,
 } from '@mui/material';
 import {
   LightMode as LightModeIcon,
   DarkMode as DarkModeIcon,
   Analytics as AnalyticsIcon,
   Close as CloseIcon,
+  Logout as LogoutIcon,
+  Chat as ChatIcon,
+  CalendarMonth as CalendarIcon,
+  ViewTimeline as TimelineIcon,
 } from '@mui/icons-material';
+import { Link as RouterLink, Navigate, Route, Routes, useLocation } from 'react-router-dom';
 import ChatInterface from './components/ChatInterface';
 import BookingAnalytics from './components/BookingAnalytics';
-import { getAllBookings, processCommand, Booking } from './services/bookingApi';
+import BookingCalendar from './components/BookingCalendar';
+import TechnicianTimeline from './components/TechnicianTimeline';
+import BookingDetailsPage from './components/BookingDetailsPage';
+import LoginForm from './components/LoginForm';
+import ContractViolationOverlay from './components/ContractViolationOverlay';
+import { IntentAnalysis } from './services/bookingApi';
+import { AUTH_ENABLED } from './services/config';
+import { logout } from './services/auth';
+import { subscribeToBookingEvents } from './services/bookingEvents';
+import { applyBookingEvent } from './services/bookingStore';
+import { useAuth } from './hooks/useAuth';
 import { createAppTheme, getInitialThemeMode } from './theme';
-import { alpha } from '@mui/material/styles';
 
 const DRAWER_WIDTH = 400;
-const getInitialThemeMode = () => window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
 
-const getDesignTokens = (mode: 'light' | 'dark') => ({
-  palette: {
-    mode,
-    primary: { main: '#2563eb', contrastText: '#ffffff' },
-    background: {
-      default: mode === 'light' ? '#f3f4f6' : '#0f172a',
-      paper: mode === 'light' ? '#ffffff' : '#1e293b',
-    },
-  },
-  typography: {
-    fontFamily: '"Inter", -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
-  },
-  shape: { borderRadius: 8 },
-});
+const NAV_ITEMS = [
+  { path: '/', label: 'Chat', icon: <ChatIcon fontSize="small" sx={{ mr: 0.5 }} /> },
+  { path: '/calendar', label: 'Calendar', icon: <CalendarIcon fontSize="small" sx={{ mr: 0.5 }} /> },
+  { path: '/schedules', label: 'Schedules', icon: <TimelineIcon fontSize="small" sx={{ mr: 0.5 }} /> },
+  { path: '/analytics', label: 'Analytics', icon: <AnalyticsIcon fontSize="small" sx={{ mr: 0.5 }} /> },
+];
 
-interface AnalyticsData {
-  bookings: Booking[];
-  nlpAnalysis: Array<{
-    intent: string;
-    confidence: number;
-    assessment: string;
-  }>;
-}
+const PAGE_HEIGHT = 'calc(100vh - 96px)';
 
 function App() {
   const [mode, setMode] = useState<'light' | 'dark'>(getInitialThemeMode());
   const theme = React.useMemo(() => createAppTheme(mode), [mode]);
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
-  const [analysisData, setAnalysisData] = useState<AnalyticsData | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const location = useLocation();
+  const isChatPage = location.pathname === '/';
+  const activePath = NAV_ITEMS.find(item => item.path === location.pathname)?.path ?? null;
+  const [nlpAnalysis, setNlpAnalysis] = useState<IntentAnalysis[]>([]);
+  const auth = useAuth();
+  const isSignedIn = !AUTH_ENABLED || auth.status === 'authenticated';
+
+  // Keep cached bookings in sync with changes made by other users
+  useEffect(() => (isSignedIn ? subscribeToBookingEvents(applyBookingEvent) : undefined), [isSignedIn]);
 
-  const handleAnalysisUpdate = (data: AnalyticsData) => {
-    setAnalysisData(data);
-    setIsLoading(false);
-  };
+  // Links inside the drawer navigate away from what it covers
+  useEffect(() => setIsDrawerOpen(false), [location.pathname]);
 
   const tooltipTitle = mode === 'light' ? 'Switch to dark mode' : 'Switch to light mode';
 
-  useEffect(() => {
-    if (isDrawerOpen && !analysisData) {
-      setIsLoading(true);
-      Promise.all([
-        getAllBookings(),
-        processCommand('analyze bookings')
-      ]).then(([bookings, nlpResult]) => {
-        handleAnalysisUpdate({
-          bookings,
-          nlpAnalysis: nlpResult.analysis || []
-        });
-      }).catch(error => {
-        console.error('Error initializing analytics:', error);
-        setIsLoading(false);
-      });
-    }
-  }, [isDrawerOpen, analysisData]);
+  if (AUTH_ENABLED && auth.status === 'anonymous') {
+    return (
+      <ThemeProvider theme={theme}>
+        <CssBaseline />
+        <Box sx={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', p: 2, bgcolor: 'background.default' }}>
+          <LoginForm title="Sign in to Technician Booking Assistant" />
+        </Box>
+      </ThemeProvider>
+    );
+  }
 
   return (
     <ThemeProvider theme={theme}>
@@ -83,27 +79,57 @@ function App() {
             <Typography variant="h6" sx={{ flex: 1, fontWeight: 600 }}>
               Technician Booking Assistant
             </Typography>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={activePath}
+              sx={{ mr: 1, '& .MuiToggleButton-root': { color: 'inherit', borderColor: 'divider' } }}
+            >
+              {NAV_ITEMS.map(item => (
+                <ToggleButton key={item.path} value={item.path} component={RouterLink} to={item.path} aria-label={item.label}>
+                  {item.icon}{item.label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
             <Tooltip title={tooltipTitle}>
               <IconButton onClick={() => setMode(mode === 'light' ? 'dark' : 'light')} color="inherit">
                 {mode === 'light' ? <DarkModeIcon /> : <LightModeIcon />}
               </IconButton>
             </Tooltip>
+            {AUTH_ENABLED && auth.status === 'authenticated' && (
+              <Tooltip title={auth.username ? `Sign out ${auth.username}` : 'Sign out'}>
+                <IconButton onClick={() => logout()} color="inherit">
+                  <LogoutIcon />
+                </IconButton>
+              </Tooltip>
+            )}
           </Toolbar>
         </AppBar>
 
         <Container maxWidth="xl" sx={{ flex: 1, py: 2 }}>
-          <Box sx={{ height: '100%' }}>
-            <ChatInterface onAnalysisUpdate={handleAnalysisUpdate} />
+          {/* The chat stays mounted so in-flight requests and drafts survive navigation */}
+          <Box sx={{ height: '100%', display: isChatPage ? 'block' : 'none' }}>
+            <ChatInterface onAnalysisUpdate={setNlpAnalysis} />
           </Box>
+          <Routes>
+            <Route path="/" element={null} />
+            <Route path="/calendar" element={<Box sx={{ height: PAGE_HEIGHT }}><BookingCalendar /></Box>} />
+            <Route path="/schedules" element={<Box sx={{ height: PAGE_HEIGHT }}><TechnicianTimeline /></Box>} />
+            <Route path="/analytics" element={<Box sx={{ height: PAGE_HEIGHT }}><BookingAnalytics nlpAnalysis={nlpAnalysis} /></Box>} />
+            <Route path="/bookings/:id" element={<BookingDetailsPage />} />
+            <Route path="*" element={<Navigate to="/" replace />} />
+          </Routes>
         </Container>
 
-        <Fab
-          color="primary"
-          sx={{ position: 'fixed', bottom: 16, right: 16 }}
-          onClick={() => setIsDrawerOpen(!isDrawerOpen)}
-        >
-          {isDrawerOpen ? <CloseIcon /> : <AnalyticsIcon />}
-        </Fab>
+        {location.pathname !== '/analytics' && (
+          <Fab
+            color="primary"
+            sx={{ position: 'fixed', bottom: 16, right: 16 }}
+            onClick={() => setIsDrawerOpen(!isDrawerOpen)}
+          >
+            {isDrawerOpen ? <CloseIcon /> : <AnalyticsIcon />}
+          </Fab>
+        )}
 
         <Drawer
           anchor="right"
@@ -118,17 +144,18 @@ function App() {
             },
           }}
         >
-          {isLoading ? (
-            <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
-              <CircularProgress />
-            </Box>
-          ) : analysisData && (
-            <BookingAnalytics 
-              bookings={analysisData.bookings} 
-              nlpAnalysis={analysisData.nlpAnalysis}
-            />
-          )}
+          {isDrawerOpen && <BookingAnalytics nlpAnalysis={nlpAnalysis} />}
         </Drawer>
+
+        <Dialog open={AUTH_ENABLED && auth.status === 'expired'} PaperProps={{ sx: { bgcolor: 'transparent', boxShadow: 'none' } }}>
+          <LoginForm
+            title="Sign in again"
+            notice="Your session has expired. Sign in to continue where you left off."
+            defaultUsername={auth.username ?? ''}
+          />
+        </Dialog>
+
+        {import.meta.env.DEV && <ContractViolationOverlay />}
       </Box>
     </ThemeProvider>
   );
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Box,
   Typography,
@@ -10,21 +10,176 @@ import {
   TableContainer,
   TableHead,
   TableRow,
-  Paper,
+  Chip,
+  CircularProgress,
+  Alert,
+  Button,
+  Link,
+  Stack,
 } from '@mui/material';
+import { Link as RouterLink, useNavigate } from 'react-router-dom';
 import { BarChart, Bar, XAxis, YAxis, ResponsiveContainer, Tooltip as RechartsTooltip } from 'recharts';
-import { DataGrid } from '@mui/x-data-grid';
-import { Booking } from '../services/bookingApi';
+import {
+  DataGrid,
+  GridColDef,
+  GridFilterModel,
+  GridPaginationModel,
+  GridSortModel,
+  getGridSingleSelectOperators,
+} from '@mui/x-data-grid';
+import { Booking, BookingListParams, IntentAnalysis } from '../services/bookingApi';
+import {
+  BOOKING_STATUSES,
+  BOOKING_STATUS_COLORS,
+  BOOKING_STATUS_LABELS,
+  BookingStatus,
+  normalizeBookingStatus,
+} from '../services/bookingStatus';
+import { describeMutation } from '../services/offlineQueue';
+import { usePendingMutations } from '../hooks/usePendingMutations';
+import { useBookingPage, useRecentBookings } from '../hooks/useBookings';
+import BookingStatusChip from './BookingStatusChip';
+
+const FILTERABLE_FIELDS = ['customer_name', 'technician_name', 'profession'] as const;
+
+const columns: GridColDef<Booking>[] = [
+  {
+    field: 'id',
+    headerName: 'Booking ID',
+    width: 150,
+    filterable: false,
+    renderCell: ({ row }) => (
+      <Link component={RouterLink} to={`/bookings/${encodeURIComponent(row.id)}`} onClick={(e) => e.stopPropagation()}>
+        #{row.id}
+      </Link>
+    ),
+  },
+  { field: 'customer_name', headerName: 'Customer', width: 180 },
+  { field: 'technician_name', headerName: 'Technician', width: 180 },
+  { field: 'profession', headerName: 'Profession', width: 180 },
+  { field: 'start_time', headerName: 'Start Time', width: 180, filterable: false },
+  { field: 'end_time', headerName: 'End Time', width: 180, filterable: false },
+  {
+    field: 'status',
+    headerName: 'Status',
+    width: 140,
+    type: 'singleSelect',
+    valueOptions: BOOKING_STATUSES.map((value) => ({ value, label: BOOKING_STATUS_LABELS[value] })),
+    // The server only matches one exact status
+    filterOperators: getGridSingleSelectOperators().filter((operator) => operator.value === 'is'),
+    renderCell: ({ row }) => <BookingStatusChip booking={row} />,
+  },
+];
+
+/** Translate DataGrid paging, sorting and filter state into list query parameters */
+function toListParams(
+  pagination: GridPaginationModel,
+  sortModel: GridSortModel,
+  filterModel: GridFilterModel
+): BookingListParams {
+  const params: BookingListParams = {
+    page: pagination.page + 1,
+    page_size: pagination.pageSize,
+  };
+  if (sortModel[0]) {
+    params.sort_by = sortModel[0].field as keyof Booking;
+    params.sort_order = sortModel[0].sort ?? 'asc';
+  }
+  filterModel.items.forEach((item) => {
+    if (item.field === 'status') {
+      params.status = normalizeBookingStatus(item.value) ?? undefined;
+      return;
+    }
+    const field = FILTERABLE_FIELDS.find((f) => f === item.field);
+    if (field && typeof item.value === 'string' && item.value.trim()) {
+      params[field] = item.value.trim();
+    }
+  });
+  return params;
+}
+
+/** Server-driven grid: every page, sort and filter change is a new list request */
+const RecentBookingsGrid: React.FC = () => {
+  const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({ page: 0, pageSize: 10 });
+  const [sortModel, setSortModel] = useState<GridSortModel>([{ field: 'start_time', sort: 'desc' }]);
+  const [filterModel, setFilterModel] = useState<GridFilterModel>({ items: [] });
+  const { page, isFetching, error } = useBookingPage(toListParams(paginationModel, sortModel, filterModel));
+  const navigate = useNavigate();
+
+  return (
+    <>
+      {error && <Alert severity="error" sx={{ mb: 1 }}>{error.message.replace('API request failed: ', '')}</Alert>}
+      <Box sx={{ height: 400 }}>
+        <DataGrid
+          rows={page?.items ?? []}
+          columns={columns}
+          rowCount={page?.total ?? 0}
+          loading={isFetching}
+          paginationMode="server"
+          sortingMode="server"
+          filterMode="server"
+          paginationModel={paginationModel}
+          onPaginationModelChange={setPaginationModel}
+          sortModel={sortModel}
+          onSortModelChange={setSortModel}
+          filterModel={filterModel}
+          onFilterModelChange={(model) => {
+            setFilterModel(model);
+            setPaginationModel((prev) => ({ ...prev, page: 0 }));
+          }}
+          pageSizeOptions={[5, 10, 25, 50]}
+          disableRowSelectionOnClick
+          onRowClick={({ row }) => navigate(`/bookings/${encodeURIComponent(row.id)}`)}
+          sx={{ '& .MuiDataGrid-row': { cursor: 'pointer' } }}
+        />
+      </Box>
+    </>
+  );
+};
+
+/** Server-side number of bookings, optionally in one status, read from a one-row page */
+function useBookingCount(status?: BookingStatus): number | undefined {
+  const { page } = useBookingPage({ page: 1, page_size: 1, status });
+  return page?.total;
+}
+
+interface CountCardProps {
+  title: string;
+  status?: BookingStatus;
+  color?: string;
+}
+
+const CountCard: React.FC<CountCardProps> = ({ title, status, color }) => {
+  const count = useBookingCount(status);
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6">{title}</Typography>
+        <Typography variant="h4" color={color}>{count ?? '–'}</Typography>
+      </CardContent>
+    </Card>
+  );
+};
+
+const StatusCountChip: React.FC<{ status: BookingStatus }> = ({ status }) => {
+  const count = useBookingCount(status) ?? 0;
+  return (
+    <Chip
+      label={`${BOOKING_STATUS_LABELS[status]}: ${count}`}
+      color={BOOKING_STATUS_COLORS[status]}
+      variant={count > 0 ? 'filled' : 'outlined'}
+    />
+  );
+};
 
 interface BookingAnalyticsProps {
-  bookings: Booking[];
-  nlpAnalysis: { intent: string; confidence: number }[];
+  nlpAnalysis: IntentAnalysis[];
 }
 
-const BookingAnalytics: React.FC<BookingAnalyticsProps> = ({ bookings, nlpAnalysis }) => {
-  const totalBookings = bookings.length;
-  const completedBookings = bookings.filter(b => b.status.toLowerCase() === 'completed').length;
-  const canceledBookings = bookings.filter(b => b.status.toLowerCase() === 'cancelled').length;
+const BookingAnalytics: React.FC<BookingAnalyticsProps> = ({ nlpAnalysis }) => {
+  const pendingMutations = usePendingMutations();
+  // Rankings use a window around today; counts come from the server
+  const { bookings, isLoading, error, refresh } = useRecentBookings();
 
   const technicianCounts = bookings.reduce((acc, b) => {
     acc[b.technician_name] = (acc[b.technician_name] || 0) + 1;
@@ -40,41 +195,63 @@ const BookingAnalytics: React.FC<BookingAnalyticsProps> = ({ bookings, nlpAnalys
     confidence: Math.round(confidence * 100),
   }));
 
-  const columns = [
-    { field: 'id', headerName: 'Booking ID', width: 150 },
-    { field: 'customer_name', headerName: 'Customer', width: 180 },
-    { field: 'technician_name', headerName: 'Technician', width: 180 },
-    { field: 'profession', headerName: 'Profession', width: 180 },
-    { field: 'start_time', headerName: 'Start Time', width: 180 },
-    { field: 'end_time', headerName: 'End Time', width: 180 },
-  ];
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
 
   return (
     <Box sx={{ p: 3, display: 'grid', gap: 3, height: '100%', overflow: 'auto' }}>
+      {error && (
+        <Alert severity="error" action={<Button color="inherit" size="small" onClick={refresh}>Retry</Button>}>
+          {error.message.replace('API request failed: ', '')}
+        </Alert>
+      )}
+
       <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 2 }}>
+        <CountCard title="Total" />
+        <CountCard title="Completed" status="completed" color="success.main" />
+        <CountCard title="Canceled" status="cancelled" color="error.main" />
+      </Box>
+
+      <Card>
+        <CardContent>
+          <Typography variant="h6" gutterBottom>By Status</Typography>
+          <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+            {BOOKING_STATUSES.map(status => <StatusCountChip key={status} status={status} />)}
+          </Stack>
+        </CardContent>
+      </Card>
+
+      {pendingMutations.length > 0 && (
         <Card>
           <CardContent>
-            <Typography variant="h6">Total</Typography>
-            <Typography variant="h4">{totalBookings}</Typography>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent>
-            <Typography variant="h6">Completed</Typography>
-            <Typography variant="h4" color="success.main">{completedBookings}</Typography>
-          </CardContent>
-        </Card>
-        <Card>
-          <CardContent>
-            <Typography variant="h6">Canceled</Typography>
-            <Typography variant="h4" color="error.main">{canceledBookings}</Typography>
+            <Typography variant="h6" gutterBottom>Pending Sync</Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableBody>
+                  {pendingMutations.map(mutation => (
+                    <TableRow key={mutation.id}>
+                      <TableCell>{describeMutation(mutation)}</TableCell>
+                      <TableCell align="right">
+                        <Chip label="Pending" size="small" color="warning" variant="outlined" />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
           </CardContent>
         </Card>
-      </Box>
+      )}
 
       <Card>
         <CardContent>
-          <Typography variant="h6" gutterBottom>Top Technicians</Typography>
+          <Typography variant="h6">Top Technicians</Typography>
+          <Typography variant="caption" color="text.secondary">Bookings from the last month and the next two months</Typography>
           <TableContainer>
             <Table size="small">
               <TableHead>
@@ -113,14 +290,7 @@ const BookingAnalytics: React.FC<BookingAnalyticsProps> = ({ bookings, nlpAnalys
       <Card>
         <CardContent>
           <Typography variant="h6" gutterBottom>Recent Bookings</Typography>
-          <Box sx={{ height: 400 }}>
-            <DataGrid
-              rows={bookings}
-              columns={columns}
-              pageSizeOptions={[5, 10]}
-              disableRowSelectionOnClick
-            />
-          </Box>
+          <RecentBookingsGrid />
         </CardContent>
       </Card>
     </Box>
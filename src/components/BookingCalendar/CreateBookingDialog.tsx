@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Stack,
+  Alert,
+  Autocomplete,
+  CircularProgress,
+} from '@mui/material';
+import { addMilliseconds, format, parseISO } from 'date-fns';
+import {
+  Booking,
+  BookingApiError,
+  BookingQueuedError,
+  createBooking,
+  updateBooking,
+} from '../../services/bookingApi';
+import { useBookingConflicts } from '../../hooks/useBookingConflicts';
+import ConflictWarning from '../ConflictWarning';
+
+export interface CalendarSlot {
+  start: Date;
+  end: Date;
+  technician_name?: string;  // Prefilled from the active filters
+  profession?: string;
+}
+
+export interface CreateResult {
+  booking?: Booking;            // New booking, when the server created it
+  queued?: BookingQueuedError;  // Set when the create was queued offline
+  warning?: string;             // Created, but the selected end time could not be applied
+}
+
+interface CreateBookingDialogProps {
+  slot: CalendarSlot | null;
+  technicians: Record<string, string>;  // Technician name -> profession
+  onClose: () => void;
+  onCreated: (result: CreateResult) => void;
+}
+
+interface FormState {
+  customer_name: string;
+  technician_name: string;
+  profession: string;
+  start: string;  // datetime-local value
+  end: string;    // datetime-local value
+}
+
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+/** Create a booking for a slot selected on the calendar */
+const CreateBookingDialog: React.FC<CreateBookingDialogProps> = ({
+  slot,
+  technicians,
+  onClose,
+  onCreated,
+}) => {
+  const [form, setForm] = useState<FormState | null>(null);
+  const [errors, setErrors] = useState<Partial<Record<keyof FormState, string>>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const conflicts = useBookingConflicts(form);
+
+  useEffect(() => {
+    setForm(slot ? {
+      customer_name: '',
+      technician_name: slot.technician_name ?? '',
+      profession: slot.profession ?? '',
+      start: toInputValue(slot.start),
+      end: toInputValue(slot.end),
+    } : null);
+    setErrors({});
+    setSubmitError(null);
+    setIsSubmitting(false);
+  }, [slot]);
+
+  const setField = (field: keyof FormState, value: string) => {
+    setForm(prev => (prev ? { ...prev, [field]: value } : prev));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleTechnicianChange = (value: string) => {
+    setField('technician_name', value);
+    const profession = technicians[value];
+    if (profession) setField('profession', profession);
+  };
+
+  // Keep the selected duration when moving to a suggested slot
+  const handlePickSlot = (startIso: string) => {
+    if (!form) return;
+    const start = parseISO(startIso);
+    const duration = new Date(form.end).getTime() - new Date(form.start).getTime();
+    setField('start', toInputValue(start));
+    setField('end', toInputValue(addMilliseconds(start, duration)));
+  };
+
+  const handleSubmit = async () => {
+    if (!form) return;
+    const start = new Date(form.start);
+    const end = new Date(form.end);
+    const validationErrors: Partial<Record<keyof FormState, string>> = {};
+    if (!form.customer_name.trim()) validationErrors.customer_name = 'Customer is required';
+    if (!form.technician_name.trim()) validationErrors.technician_name = 'Technician is required';
+    if (!form.profession.trim()) validationErrors.profession = 'Profession is required';
+    if (!form.start || Number.isNaN(start.getTime())) validationErrors.start = 'Enter a valid start time';
+    if (!form.end || Number.isNaN(end.getTime())) validationErrors.end = 'Enter a valid end time';
+    else if (end <= start) validationErrors.end = 'End must be after the start';
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    let created: Booking;
+    try {
+      created = await createBooking({
+        customer_name: form.customer_name.trim(),
+        technician_name: form.technician_name.trim(),
+        profession: form.profession.trim(),
+        start_time: start.toISOString(),
+      });
+    } catch (err) {
+      if (err instanceof BookingQueuedError) {
+        onCreated({ queued: err });
+        return;
+      }
+      setSubmitError(err instanceof BookingApiError ? err.message.replace('API request failed: ', '') : 'Could not create the booking.');
+      setIsSubmitting(false);
+      return;
+    }
+
+    // The create endpoint picks the duration; apply the selected end time on top
+    if (Date.parse(created.end_time) === end.getTime()) {
+      onCreated({ booking: created });
+      return;
+    }
+    try {
+      onCreated({ booking: await updateBooking(created.id, { end_time: end.toISOString() }) });
+    } catch (err) {
+      onCreated({
+        booking: created,
+        warning: err instanceof BookingQueuedError
+          ? 'The end time will be applied once the server is reachable again.'
+          : `The end time could not be applied: ${err instanceof BookingApiError ? err.message.replace('API request failed: ', '') : 'unexpected error'}.`,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!slot} onClose={isSubmitting ? undefined : onClose} fullWidth maxWidth="xs">
+      <DialogTitle>New booking</DialogTitle>
+      <DialogContent>
+        {form && (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {submitError && <Alert severity="error">{submitError}</Alert>}
+            {conflicts && (
+              <ConflictWarning
+                report={conflicts}
+                technician={form.technician_name}
+                disabled={isSubmitting}
+                onPickSlot={handlePickSlot}
+                onPickTechnician={handleTechnicianChange}
+              />
+            )}
+            <TextField
+              label="Customer"
+              value={form.customer_name}
+              onChange={e => setField('customer_name', e.target.value)}
+              error={!!errors.customer_name}
+              helperText={errors.customer_name}
+              autoFocus
+              fullWidth
+            />
+            <Autocomplete
+              freeSolo
+              options={Object.keys(technicians).sort()}
+              inputValue={form.technician_name}
+              onInputChange={(_, value) => handleTechnicianChange(value)}
+              renderInput={params => (
+                <TextField
+                  {...params}
+                  label="Technician"
+                  error={!!errors.technician_name}
+                  helperText={errors.technician_name}
+                />
+              )}
+            />
+            <TextField
+              label="Profession"
+              value={form.profession}
+              onChange={e => setField('profession', e.target.value)}
+              error={!!errors.profession}
+              helperText={errors.profession}
+              fullWidth
+            />
+            <TextField
+              label="Start"
+              type="datetime-local"
+              value={form.start}
+              onChange={e => setField('start', e.target.value)}
+              error={!!errors.start}
+              helperText={errors.start}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+            <TextField
+              label="End"
+              type="datetime-local"
+              value={form.end}
+              onChange={e => setField('end', e.target.value)}
+              error={!!errors.end}
+              helperText={errors.end}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSubmitting}>Cancel</Button>
+        <Button
+          variant="contained"
+          color={conflicts ? 'warning' : 'primary'}
+          onClick={handleSubmit}
+          disabled={isSubmitting}
+          startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          {conflicts ? 'Create anyway' : 'Create'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default CreateBookingDialog;
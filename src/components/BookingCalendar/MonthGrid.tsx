@@ -0,0 +1,99 @@
+import React from 'react';
+import { Box, ButtonBase, Link, Typography } from '@mui/material';
+import { addDays, format, isSameMonth, isToday, parseISO, set } from 'date-fns';
+import { Booking } from '../../services/bookingApi';
+import { BOOKING_STATUS_LABELS, isActiveStatus } from '../../services/bookingStatus';
+import { bookingsInRange } from '../../utils/calendar';
+import { CalendarSlot } from './CreateBookingDialog';
+
+interface MonthGridProps {
+  days: Date[];
+  month: Date;
+  bookings: Booking[];
+  onOpenBooking: (booking: Booking) => void;
+  onOpenDay: (day: Date) => void;
+  onSelectSlot: (slot: CalendarSlot) => void;
+}
+
+const VISIBLE_PER_DAY = 3;
+const DEFAULT_START_HOUR = 9;
+
+/** Month layout: one cell per day listing its bookings; double-click a cell to book that day */
+const MonthGrid: React.FC<MonthGridProps> = ({ days, month, bookings, onOpenBooking, onOpenDay, onSelectSlot }) => (
+  <Box sx={{ border: 1, borderColor: 'divider', borderRadius: 1, overflow: 'hidden' }}>
+    <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)', bgcolor: 'background.paper' }}>
+      {days.slice(0, 7).map(day => (
+        <Typography key={day.toISOString()} variant="caption" color="text.secondary" sx={{ py: 0.5, textAlign: 'center' }}>
+          {format(day, 'EEE')}
+        </Typography>
+      ))}
+    </Box>
+    <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, 1fr)' }}>
+      {days.map(day => {
+        const own = bookingsInRange(bookings, { start: day, end: addDays(day, 1) })
+          .sort((a, b) => a.start_time.localeCompare(b.start_time));
+        const hidden = own.length - VISIBLE_PER_DAY;
+        return (
+          <Box
+            key={day.toISOString()}
+            onDoubleClick={() => {
+              const start = set(day, { hours: DEFAULT_START_HOUR });
+              onSelectSlot({ start, end: set(day, { hours: DEFAULT_START_HOUR + 1 }) });
+            }}
+            sx={{
+              minHeight: 110,
+              p: 0.5,
+              borderTop: 1,
+              borderLeft: 1,
+              borderColor: 'divider',
+              opacity: isSameMonth(day, month) ? 1 : 0.5,
+              userSelect: 'none',
+            }}
+          >
+            <Link
+              component="button"
+              variant="caption"
+              underline="hover"
+              onClick={() => onOpenDay(day)}
+              sx={{ fontWeight: isToday(day) ? 700 : 400, color: isToday(day) ? 'primary.main' : 'text.primary' }}
+            >
+              {format(day, 'd')}
+            </Link>
+            {own.slice(0, VISIBLE_PER_DAY).map(booking => (
+              <ButtonBase
+                key={booking.id}
+                onClick={() => onOpenBooking(booking)}
+                onDoubleClick={e => e.stopPropagation()}
+                title={`#${booking.id} ${booking.customer_name} · ${booking.technician_name} (${booking.profession}) · ${BOOKING_STATUS_LABELS[booking.status]}`}
+                sx={{
+                  display: 'block',
+                  width: '100%',
+                  textAlign: 'left',
+                  mt: 0.25,
+                  px: 0.5,
+                  borderRadius: 0.5,
+                  bgcolor: 'primary.main',
+                  color: 'primary.contrastText',
+                  // Cancelled and no-show bookings stay visible but no longer hold the slot
+                  ...(!isActiveStatus(booking.status) && { opacity: 0.5, textDecoration: 'line-through' }),
+                  '&:hover': { bgcolor: 'primary.dark' },
+                }}
+              >
+                <Typography variant="caption" component="div" noWrap>
+                  {format(parseISO(booking.start_time), 'HH:mm')} {booking.technician_name}
+                </Typography>
+              </ButtonBase>
+            ))}
+            {hidden > 0 && (
+              <Link component="button" variant="caption" onClick={() => onOpenDay(day)} sx={{ display: 'block', mt: 0.25 }}>
+                +{hidden} more
+              </Link>
+            )}
+          </Box>
+        );
+      })}
+    </Box>
+  </Box>
+);
+
+export default MonthGrid;
@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Typography, alpha, useTheme } from '@mui/material';
+import { format, isToday, parseISO } from 'date-fns';
+import { Booking } from '../../services/bookingApi';
+import { BOOKING_STATUS_LABELS, isActiveStatus } from '../../services/bookingStatus';
+import { SLOTS_PER_DAY, SLOT_MINUTES, layoutDay, slotToDate } from '../../utils/calendar';
+import { CalendarSlot } from './CreateBookingDialog';
+
+interface TimeGridProps {
+  days: Date[];
+  bookings: Booking[];
+  onOpenBooking: (booking: Booking) => void;
+  onSelectSlot: (slot: CalendarSlot) => void;
+}
+
+interface DragState {
+  dayIndex: number;
+  anchor: number;   // Slot where the drag started
+  current: number;  // Slot under the pointer
+}
+
+const SLOT_HEIGHT = 24;
+const GUTTER_WIDTH = 56;
+const SCROLL_TO_HOUR = 7;
+const PX_PER_MINUTE = SLOT_HEIGHT / SLOT_MINUTES;
+
+/** Day and week layout: one column per day, bookings placed by start and end time */
+const TimeGrid: React.FC<TimeGridProps> = ({ days, bookings, onOpenBooking, onSelectSlot }) => {
+  const theme = useTheme();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = SCROLL_TO_HOUR * (60 / SLOT_MINUTES) * SLOT_HEIGHT;
+  }, []);
+
+  const slotAt = (e: React.PointerEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.min(SLOTS_PER_DAY - 1, Math.max(0, Math.floor((e.clientY - rect.top) / SLOT_HEIGHT)));
+  };
+
+  const handlePointerDown = (dayIndex: number) => (e: React.PointerEvent<HTMLElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const slot = slotAt(e);
+    setDrag({ dayIndex, anchor: slot, current: slot });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    if (!drag) return;
+    const slot = slotAt(e);
+    if (slot !== drag.current) setDrag({ ...drag, current: slot });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const day = days[drag.dayIndex];
+    const first = Math.min(drag.anchor, drag.current);
+    const last = Math.max(drag.anchor, drag.current);
+    setDrag(null);
+    onSelectSlot({ start: slotToDate(day, first), end: slotToDate(day, last + 1) });
+  };
+
+  return (
+    <Box ref={scrollRef} sx={{ overflow: 'auto', height: '100%', border: 1, borderColor: 'divider', borderRadius: 1 }}>
+      <Box
+        sx={{
+          display: 'flex',
+          position: 'sticky',
+          top: 0,
+          zIndex: 2,
+          bgcolor: 'background.paper',
+          borderBottom: 1,
+          borderColor: 'divider',
+        }}
+      >
+        <Box sx={{ width: GUTTER_WIDTH, flexShrink: 0 }} />
+        {days.map(day => (
+          <Box key={day.toISOString()} sx={{ flex: 1, minWidth: 100, py: 1, textAlign: 'center' }}>
+            <Typography variant="caption" color="text.secondary">{format(day, 'EEE')}</Typography>
+            <Typography
+              variant="subtitle2"
+              sx={{ fontWeight: 600, color: isToday(day) ? 'primary.main' : 'text.primary' }}
+            >
+              {format(day, 'MMM d')}
+            </Typography>
+          </Box>
+        ))}
+      </Box>
+
+      <Box sx={{ display: 'flex', position: 'relative' }}>
+        <Box sx={{ width: GUTTER_WIDTH, flexShrink: 0 }}>
+          {Array.from({ length: 24 }, (_, hour) => (
+            <Box key={hour} sx={{ height: SLOT_HEIGHT * (60 / SLOT_MINUTES), pr: 1, textAlign: 'right' }}>
+              <Typography variant="caption" color="text.secondary" sx={{ position: 'relative', top: -8 }}>
+                {hour === 0 ? '' : `${String(hour).padStart(2, '0')}:00`}
+              </Typography>
+            </Box>
+          ))}
+        </Box>
+
+        {days.map((day, dayIndex) => {
+          const selection = drag?.dayIndex === dayIndex
+            ? { first: Math.min(drag.anchor, drag.current), last: Math.max(drag.anchor, drag.current) }
+            : null;
+          return (
+            <Box
+              key={day.toISOString()}
+              onPointerDown={handlePointerDown(dayIndex)}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={() => setDrag(null)}
+              sx={{
+                flex: 1,
+                minWidth: 100,
+                position: 'relative',
+                height: SLOTS_PER_DAY * SLOT_HEIGHT,
+                borderLeft: 1,
+                borderColor: 'divider',
+                cursor: 'crosshair',
+                userSelect: 'none',
+                touchAction: 'none',
+                bgcolor: isToday(day) ? alpha(theme.palette.primary.main, 0.03) : undefined,
+                backgroundImage: `repeating-linear-gradient(to bottom, transparent 0, transparent ${SLOT_HEIGHT * 2 - 1}px, ${theme.palette.divider} ${SLOT_HEIGHT * 2 - 1}px, ${theme.palette.divider} ${SLOT_HEIGHT * 2}px)`,
+              }}
+            >
+              {selection && (
+                <Box
+                  sx={{
+                    position: 'absolute',
+                    left: 2,
+                    right: 2,
+                    top: selection.first * SLOT_HEIGHT,
+                    height: (selection.last - selection.first + 1) * SLOT_HEIGHT,
+                    bgcolor: alpha(theme.palette.primary.main, 0.2),
+                    border: 1,
+                    borderColor: 'primary.main',
+                    borderRadius: 1,
+                    px: 0.5,
+                    zIndex: 1,
+                  }}
+                >
+                  <Typography variant="caption">
+                    {format(slotToDate(day, selection.first), 'HH:mm')} – {format(slotToDate(day, selection.last + 1), 'HH:mm')}
+                  </Typography>
+                </Box>
+              )}
+              {layoutDay(bookings, day).map(({ booking, top, height, lane, lanes }) => (
+                <Box
+                  key={booking.id}
+                  role="button"
+                  tabIndex={0}
+                  onPointerDown={e => e.stopPropagation()}
+                  onClick={() => onOpenBooking(booking)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter' || e.key === ' ') onOpenBooking(booking);
+                  }}
+                  title={`#${booking.id} ${booking.customer_name} · ${booking.technician_name} (${booking.profession}) · ${BOOKING_STATUS_LABELS[booking.status]}`}
+                  sx={{
+                    position: 'absolute',
+                    top: top * PX_PER_MINUTE,
+                    height: Math.max(height * PX_PER_MINUTE - 2, 16),
+                    left: `calc(${(lane / lanes) * 100}% + 2px)`,
+                    width: `calc(${100 / lanes}% - 4px)`,
+                    bgcolor: alpha(theme.palette.primary.main, 0.85),
+                    color: 'primary.contrastText',
+                    borderRadius: 1,
+                    px: 0.5,
+                    overflow: 'hidden',
+                    cursor: 'pointer',
+                    zIndex: 1,
+                    // Cancelled and no-show bookings stay visible but no longer hold the slot
+                    ...(!isActiveStatus(booking.status) && { opacity: 0.5, textDecoration: 'line-through' }),
+                    '&:hover, &:focus-visible': { bgcolor: 'primary.dark', outline: 'none' },
+                  }}
+                >
+                  <Typography variant="caption" component="div" noWrap sx={{ fontWeight: 600 }}>
+                    {format(parseISO(booking.start_time), 'HH:mm')} {booking.customer_name}
+                  </Typography>
+                  <Typography variant="caption" component="div" noWrap>
+                    {booking.technician_name}
+                  </Typography>
+                </Box>
+              ))}
+            </Box>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+};
+
+export default TimeGrid;
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Button,
+  IconButton,
+  Tooltip,
+  ToggleButton,
+  ToggleButtonGroup,
+  TextField,
+  MenuItem,
+  Alert,
+  Snackbar,
+  LinearProgress,
+} from '@mui/material';
+import { ChevronLeft as PrevIcon, ChevronRight as NextIcon } from '@mui/icons-material';
+import { Booking } from '../../services/bookingApi';
+import { applyBookingEvent } from '../../services/bookingStore';
+import { useBookingRange, useRecentBookings } from '../../hooks/useBookings';
+import {
+  CalendarMode,
+  bookingsInRange,
+  describeCalendarRange,
+  getCalendarRange,
+  getRangeDays,
+  shiftCalendarDate,
+} from '../../utils/calendar';
+import BookingDetailsDialog from '../BookingDetailsDialog';
+import CreateBookingDialog, { CalendarSlot, CreateResult } from './CreateBookingDialog';
+import TimeGrid from './TimeGrid';
+import MonthGrid from './MonthGrid';
+
+interface Notice {
+  severity: 'success' | 'warning';
+  message: string;
+}
+
+const ALL = '';
+
+/** Bookings laid out by day, week or month, with filters, details and drag-to-create */
+const BookingCalendar: React.FC = () => {
+  const [mode, setMode] = useState<CalendarMode>('week');
+  const [date, setDate] = useState(() => new Date());
+  const range = useMemo(() => getCalendarRange(mode, date), [mode, date]);
+  const { bookings, isLoading, isFetching, error, refresh } = useBookingRange(range);
+  const { bookings: recent } = useRecentBookings();
+  const [technician, setTechnician] = useState(ALL);
+  const [profession, setProfession] = useState(ALL);
+  const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
+  const [slot, setSlot] = useState<CalendarSlot | null>(null);
+  const [notice, setNotice] = useState<Notice | null>(null);
+
+  // Technician name -> profession, for the filters and the create form; recent bookings keep them stable while paging
+  const technicians = useMemo(
+    () => Object.fromEntries([...recent, ...bookings].map(b => [b.technician_name, b.profession])) as Record<string, string>,
+    [recent, bookings]
+  );
+  const professions = useMemo(() => Array.from(new Set(Object.values(technicians))).sort(), [technicians]);
+
+  const days = useMemo(() => getRangeDays(range), [range]);
+  const visible = useMemo(
+    () => bookingsInRange(bookings, range).filter(b =>
+      (technician === ALL || b.technician_name === technician) &&
+      (profession === ALL || b.profession === profession)
+    ),
+    [bookings, range, technician, profession]
+  );
+
+  const handleSelectSlot = (selected: CalendarSlot) => {
+    setSlot({
+      ...selected,
+      technician_name: technician || undefined,
+      profession: technician ? technicians[technician] : profession || undefined,
+    });
+  };
+
+  const handleCreated = ({ booking, queued, warning }: CreateResult) => {
+    setSlot(null);
+    if (queued) {
+      setNotice({ severity: 'warning', message: 'The booking will be created once the server is reachable again.' });
+      return;
+    }
+    if (!booking) return;
+    applyBookingEvent({ type: 'booking.created', booking_id: booking.id, booking });
+    setNotice(warning
+      ? { severity: 'warning', message: `Booking #${booking.id} created. ${warning}` }
+      : { severity: 'success', message: `Booking #${booking.id} created.` });
+  };
+
+  return (
+    <Paper elevation={0} sx={{ p: 2, height: '100%', display: 'flex', flexDirection: 'column', gap: 1.5, border: 1, borderColor: 'divider' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
+        <Button variant="outlined" size="small" onClick={() => setDate(new Date())}>Today</Button>
+        <Tooltip title="Previous">
+          <IconButton size="small" onClick={() => setDate(shiftCalendarDate(mode, date, -1))}><PrevIcon /></IconButton>
+        </Tooltip>
+        <Tooltip title="Next">
+          <IconButton size="small" onClick={() => setDate(shiftCalendarDate(mode, date, 1))}><NextIcon /></IconButton>
+        </Tooltip>
+        <Typography variant="h6" sx={{ flex: 1, minWidth: 200 }}>{describeCalendarRange(mode, date)}</Typography>
+        <TextField
+          select
+          size="small"
+          label="Technician"
+          value={technician}
+          onChange={e => setTechnician(e.target.value)}
+          sx={{ minWidth: 160 }}
+        >
+          <MenuItem value={ALL}>All technicians</MenuItem>
+          {Object.keys(technicians).sort().map(name => <MenuItem key={name} value={name}>{name}</MenuItem>)}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Profession"
+          value={profession}
+          onChange={e => setProfession(e.target.value)}
+          sx={{ minWidth: 160 }}
+        >
+          <MenuItem value={ALL}>All professions</MenuItem>
+          {professions.map(name => <MenuItem key={name} value={name}>{name}</MenuItem>)}
+        </TextField>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={mode}
+          onChange={(_, value: CalendarMode | null) => value && setMode(value)}
+        >
+          <ToggleButton value="day">Day</ToggleButton>
+          <ToggleButton value="week">Week</ToggleButton>
+          <ToggleButton value="month">Month</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      {error && (
+        <Alert severity="error" action={<Button color="inherit" size="small" onClick={refresh}>Retry</Button>}>
+          {error.message.replace('API request failed: ', '')}
+        </Alert>
+      )}
+      <Box sx={{ height: 4 }}>{(isLoading || isFetching) && <LinearProgress />}</Box>
+
+      <Typography variant="caption" color="text.secondary">
+        {visible.length} booking{visible.length === 1 ? '' : 's'} ·{' '}
+        {mode === 'month' ? 'Double-click a day to add a booking' : 'Drag across a time range to add a booking'}
+      </Typography>
+
+      <Box sx={{ flex: 1, minHeight: 0, overflow: 'auto' }}>
+        {mode === 'month' ? (
+          <MonthGrid
+            days={days}
+            month={date}
+            bookings={visible}
+            onOpenBooking={setSelectedBooking}
+            onOpenDay={day => {
+              setDate(day);
+              setMode('day');
+            }}
+            onSelectSlot={handleSelectSlot}
+          />
+        ) : (
+          <TimeGrid days={days} bookings={visible} onOpenBooking={setSelectedBooking} onSelectSlot={handleSelectSlot} />
+        )}
+      </Box>
+
+      <BookingDetailsDialog booking={selectedBooking} onClose={() => setSelectedBooking(null)} />
+      <CreateBookingDialog slot={slot} technicians={technicians} onClose={() => setSlot(null)} onCreated={handleCreated} />
+      <Snackbar
+        open={!!notice}
+        autoHideDuration={6000}
+        onClose={() => setNotice(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+      >
+        <Alert severity={notice?.severity ?? 'success'} onClose={() => setNotice(null)}>{notice?.message}</Alert>
+      </Snackbar>
+    </Paper>
+  );
+};
+
+export default BookingCalendar;
@@ -0,0 +1,91 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Table,
+  TableBody,
+  TableRow,
+  TableCell,
+  Alert,
+} from '@mui/material';
+import { Link as RouterLink } from 'react-router-dom';
+import { differenceInMinutes, format, isValid, parseISO } from 'date-fns';
+import { Booking } from '../services/bookingApi';
+import { useBooking } from '../hooks/useBookings';
+import BookingStatusChip from './BookingStatusChip';
+
+interface BookingDetailsDialogProps {
+  booking: Booking | null;
+  onClose: () => void;
+}
+
+const formatDateTime = (iso: string) => {
+  const date = parseISO(iso);
+  return isValid(date) ? format(date, 'EEEE, MMM dd, yyyy HH:mm') : 'N/A';
+};
+
+const formatDuration = (booking: Booking) => {
+  const minutes = differenceInMinutes(parseISO(booking.end_time), parseISO(booking.start_time));
+  if (!Number.isFinite(minutes) || minutes <= 0) return 'N/A';
+  const hours = Math.floor(minutes / 60);
+  return [hours > 0 ? `${hours} h` : '', minutes % 60 > 0 ? `${minutes % 60} min` : ''].filter(Boolean).join(' ');
+};
+
+/** Every field of a booking, following live updates; shows a notice once it is cancelled */
+export const BookingDetails: React.FC<{ booking: Booking }> = ({ booking: initialBooking }) => {
+  const liveBooking = useBooking(initialBooking.id, initialBooking);
+  const booking = liveBooking ?? initialBooking;
+  const isRemoved = liveBooking === null;
+
+  const rows: [string, React.ReactNode][] = [
+    ['Booking ID', booking.id],
+    ['Status', <BookingStatusChip booking={booking} isRemoved={isRemoved} editable />],
+    ['Customer', booking.customer_name || 'N/A'],
+    ['Technician', booking.technician_name || 'N/A'],
+    ['Profession', booking.profession || 'N/A'],
+    ['Start', formatDateTime(booking.start_time)],
+    ['End', formatDateTime(booking.end_time)],
+    ['Duration', formatDuration(booking)],
+  ];
+
+  return (
+    <>
+      {isRemoved && (
+        <Alert severity="warning" sx={{ mb: 2 }}>This booking has been cancelled.</Alert>
+      )}
+      <Table size="small">
+        <TableBody>
+          {rows.map(([label, value]) => (
+            <TableRow key={label}>
+              <TableCell component="th" sx={{ fontWeight: 600, width: 120 }}>{label}</TableCell>
+              <TableCell>{value}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </>
+  );
+};
+
+/** Read-only view of every field of a booking, kept in sync with live updates */
+const BookingDetailsDialog: React.FC<BookingDetailsDialogProps> = ({ booking, onClose }) => (
+  <Dialog open={!!booking} onClose={onClose} fullWidth maxWidth="xs">
+    <DialogTitle>Booking #{booking?.id}</DialogTitle>
+    <DialogContent>
+      {booking && <BookingDetails booking={booking} />}
+    </DialogContent>
+    <DialogActions>
+      {booking && (
+        <Button component={RouterLink} to={`/bookings/${encodeURIComponent(booking.id)}`} onClick={onClose}>
+          Open page
+        </Button>
+      )}
+      <Button onClick={onClose}>Close</Button>
+    </DialogActions>
+  </Dialog>
+);
+
+export default BookingDetailsDialog;
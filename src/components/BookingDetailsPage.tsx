@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Alert, Box, Button, CircularProgress, IconButton, Paper, Tooltip, Typography } from '@mui/material';
+import { ArrowBack as BackIcon, Link as LinkIcon } from '@mui/icons-material';
+import { Link as RouterLink, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { useBookingDetails } from '../hooks/useBookings';
+import { BookingDetails } from './BookingDetailsDialog';
+
+/** Standalone page for `/bookings/:id`, so a booking can be linked from tickets and chats */
+const BookingDetailsPage: React.FC = () => {
+  const { id = '' } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { booking, isLoading, error, refresh } = useBookingDetails(id);
+  const [isCopied, setIsCopied] = useState(false);
+
+  // Opened from a pasted link there is no in-app page to go back to
+  const handleBack = () => (location.key === 'default' ? navigate('/') : navigate(-1));
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => setIsCopied(true))
+      .catch(console.error);
+  };
+
+  return (
+    <Box sx={{ maxWidth: 640, mx: 'auto' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <Tooltip title="Back">
+          <IconButton onClick={handleBack}><BackIcon /></IconButton>
+        </Tooltip>
+        <Typography variant="h5" sx={{ flex: 1, fontWeight: 600 }}>Booking #{id}</Typography>
+        <Tooltip title={isCopied ? 'Link copied' : 'Copy link'} onClose={() => setIsCopied(false)}>
+          <IconButton onClick={handleCopyLink}><LinkIcon /></IconButton>
+        </Tooltip>
+      </Box>
+
+      <Paper elevation={0} sx={{ p: 2, border: 1, borderColor: 'divider' }}>
+        {isLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+        {error && (
+          <Alert severity="error" action={<Button color="inherit" size="small" onClick={refresh}>Retry</Button>}>
+            {error.message.replace('API request failed: ', '')}
+          </Alert>
+        )}
+        {booking === null && (
+          <Alert severity="warning" action={<Button color="inherit" size="small" component={RouterLink} to="/">Open chat</Button>}>
+            Booking #{id} was not found. It may have been cancelled.
+          </Alert>
+        )}
+        {booking && <BookingDetails booking={booking} />}
+      </Paper>
+    </Box>
+  );
+};
+
+export default BookingDetailsPage;
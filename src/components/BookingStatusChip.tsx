@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Alert, Box, Chip, ChipProps, CircularProgress, Menu, MenuItem, Snackbar } from '@mui/material';
+import { ArrowDropDown as ArrowDropDownIcon } from '@mui/icons-material';
+import { Booking, BookingApiError, BookingQueuedError, updateBookingStatus } from '../services/bookingApi';
+import {
+  BOOKING_STATUS_COLORS,
+  BOOKING_STATUS_LABELS,
+  BookingStatus,
+  getNextStatuses,
+  isActiveStatus,
+} from '../services/bookingStatus';
+import { applyBookingEvent } from '../services/bookingStore';
+import ConfirmDialog from './ConfirmDialog';
+
+interface BookingStatusChipProps {
+  booking: Booking;
+  isRemoved?: boolean;          // Deleted on the server; shown as cancelled
+  editable?: boolean;           // Open a menu of the allowed next statuses
+  size?: ChipProps['size'];
+  variant?: ChipProps['variant'];
+  sx?: ChipProps['sx'];
+}
+
+interface Notice {
+  severity: 'warning' | 'error';
+  message: string;
+}
+
+/**
+ * Status chip shared by every booking view; optionally changes the status in place.
+ * Cancelling or marking a no-show frees the slot for good, so those ask for confirmation first.
+ */
+const BookingStatusChip: React.FC<BookingStatusChipProps> = ({
+  booking,
+  isRemoved = false,
+  editable = false,
+  size = 'small',
+  variant = 'filled',
+  sx,
+}) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [confirmStatus, setConfirmStatus] = useState<BookingStatus | null>(null);
+
+  const status: BookingStatus = isRemoved ? 'cancelled' : booking.status;
+  const nextStatuses = isRemoved ? [] : getNextStatuses(status);
+  const canEdit = editable && nextStatuses.length > 0;
+
+  const changeStatus = async (next: BookingStatus) => {
+    setIsSaving(true);
+    try {
+      const updated = await updateBookingStatus(booking, next);
+      applyBookingEvent({ type: 'booking.updated', booking_id: updated.id, booking: updated });
+    } catch (err) {
+      if (err instanceof BookingQueuedError) {
+        setNotice({ severity: 'warning', message: err.message });
+      } else {
+        setNotice({
+          severity: 'error',
+          message: err instanceof BookingApiError ? err.message.replace('API request failed: ', '') : 'Could not change the status.',
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSelect = (next: BookingStatus) => {
+    setAnchorEl(null);
+    if (isActiveStatus(next)) {
+      void changeStatus(next);
+    } else {
+      setConfirmStatus(next);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!confirmStatus) return;
+    await changeStatus(confirmStatus);
+    setConfirmStatus(null);
+  };
+
+  return (
+    <>
+      <Chip
+        label={canEdit ? (
+          <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center' }}>
+            {BOOKING_STATUS_LABELS[status]}
+            <ArrowDropDownIcon fontSize="small" sx={{ mr: -0.75 }} />
+          </Box>
+        ) : BOOKING_STATUS_LABELS[status]}
+        color={BOOKING_STATUS_COLORS[status]}
+        size={size}
+        variant={variant}
+        sx={sx}
+        icon={isSaving ? <CircularProgress size={12} color="inherit" /> : undefined}
+        onClick={canEdit && !isSaving ? (e) => setAnchorEl(e.currentTarget) : undefined}
+        aria-haspopup={canEdit ? 'menu' : undefined}
+      />
+      {canEdit && (
+        <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={() => setAnchorEl(null)}>
+          {nextStatuses.map(next => (
+            <MenuItem key={next} dense onClick={() => handleSelect(next)}>
+              Mark as {BOOKING_STATUS_LABELS[next].toLowerCase()}
+            </MenuItem>
+          ))}
+        </Menu>
+      )}
+      <ConfirmDialog
+        open={!!confirmStatus}
+        title={`Mark booking #${booking.id} as ${confirmStatus ? BOOKING_STATUS_LABELS[confirmStatus].toLowerCase() : ''}?`}
+        message={`${booking.technician_name} (${booking.profession})${booking.customer_name ? ` for ${booking.customer_name}` : ''} will no longer hold the slot. This cannot be undone.`}
+        confirmLabel={`Mark as ${confirmStatus ? BOOKING_STATUS_LABELS[confirmStatus].toLowerCase() : ''}`}
+        destructive
+        isBusy={isSaving}
+        onConfirm={handleConfirm}
+        onClose={() => setConfirmStatus(null)}
+      />
+      <Snackbar
+        open={!!notice}
+        autoHideDuration={6000}
+        onClose={() => setNotice(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+      >
+        <Alert severity={notice?.severity ?? 'error'} onClose={() => setNotice(null)}>{notice?.message}</Alert>
+      </Snackbar>
+    </>
+  );
+};
+
+export default BookingStatusChip;
@@ -0,0 +1,74 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import {
+  CheckCircle as SuccessIcon,
+  Error as ErrorIcon,
+  HourglassEmpty as PendingIcon,
+  Block as CancelledIcon,
+  Replay as RetryIcon,
+} from '@mui/icons-material';
+import { BatchLineStatus, BatchRun } from '../../services/conversationHistory';
+import { getFailedLines } from '../../services/batchCommands';
+
+interface BatchSummaryProps {
+  batch: BatchRun;
+  onRetry?: () => void;
+  disabled?: boolean;
+}
+
+const STATUS_ICONS: Record<BatchLineStatus, React.ReactNode> = {
+  pending: <PendingIcon fontSize="small" color="disabled" />,
+  running: <CircularProgress size={18} />,
+  success: <SuccessIcon fontSize="small" color="success" />,
+  error: <ErrorIcon fontSize="small" color="error" />,
+  cancelled: <CancelledIcon fontSize="small" color="warning" />,
+};
+
+/** Per-line progress and results of a multi-line command batch */
+const BatchSummary: React.FC<BatchSummaryProps> = ({ batch, onRetry, disabled = false }) => {
+  const total = batch.lines.length;
+  const finished = batch.lines.filter(line => line.status !== 'pending' && line.status !== 'running').length;
+  const succeeded = batch.lines.filter(line => line.status === 'success').length;
+  const failed = getFailedLines(batch.lines).length;
+  const isDone = finished === total;
+
+  return (
+    <Box sx={{ minWidth: 280 }}>
+      <Typography variant="body2" sx={{ fontWeight: 600 }}>
+        {batch.isRetry ? 'Retry' : 'Batch'}: {finished} of {total} done
+        {isDone && ` · ${succeeded} succeeded${failed > 0 ? ` · ${failed} failed` : ''}`}
+      </Typography>
+      {!isDone && <LinearProgress variant="determinate" value={(finished / total) * 100} sx={{ my: 1 }} />}
+      <List dense disablePadding>
+        {batch.lines.map((line, index) => (
+          <ListItem key={index} disableGutters alignItems="flex-start" sx={{ py: 0.25 }}>
+            <ListItemIcon sx={{ minWidth: 28, mt: 0.5 }}>{STATUS_ICONS[line.status]}</ListItemIcon>
+            <ListItemText
+              primary={line.command}
+              secondary={line.message}
+              primaryTypographyProps={{ variant: 'body2', sx: { wordBreak: 'break-word' } }}
+              secondaryTypographyProps={{ sx: { whiteSpace: 'pre-line', wordBreak: 'break-word' } }}
+            />
+          </ListItem>
+        ))}
+      </List>
+      {isDone && failed > 0 && onRetry && !batch.retried && (
+        <Button size="small" startIcon={<RetryIcon />} onClick={onRetry} disabled={disabled} sx={{ mt: 0.5 }}>
+          Retry failed line{failed === 1 ? '' : 's'} ({failed})
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default BatchSummary;
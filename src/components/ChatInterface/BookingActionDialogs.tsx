@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { Alert, Box } from '@mui/material';
+import { format, parseISO } from 'date-fns';
+import {
+  Booking,
+  BookingApiError,
+  BookingQueuedError,
+  updateBookingStatus,
+} from '../../services/bookingApi';
+import { applyBookingEvent, invalidateBookings } from '../../services/bookingStore';
+import { MessageType, SystemMessageContent } from '../../services/conversationHistory';
+import ConfirmDialog from '../ConfirmDialog';
+import BookingDetailsDialog from '../BookingDetailsDialog';
+import RescheduleDialog, { RescheduleResult } from './RescheduleDialog';
+import DuplicateBookingDialog, { DuplicateResult } from './DuplicateBookingDialog';
+
+export type BookingAction = 'cancel' | 'reschedule' | 'duplicate' | 'details';
+
+/** An action picked on a booking card */
+export interface BookingActionRequest {
+  action: BookingAction;
+  booking: Booking;
+}
+
+interface BookingActionDialogsProps {
+  request: BookingActionRequest | null;
+  onClose: () => void;
+  /** Called with the system message describing what happened */
+  onOutcome: (content: SystemMessageContent, type: MessageType) => void;
+}
+
+const describeSlot = (b: Booking) =>
+  `${b.technician_name} (${b.profession}), ${format(parseISO(b.start_time), 'MMM dd, yyyy HH:mm')}` +
+  (b.end_time ? ` - ${format(parseISO(b.end_time), 'HH:mm')}` : '');
+
+/** Dialogs behind the booking card actions; each reports its outcome as a chat message */
+const BookingActionDialogs: React.FC<BookingActionDialogsProps> = ({ request, onClose, onOutcome }) => {
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
+
+  const targetOf = (action: BookingAction) => (request?.action === action ? request.booking : null);
+  const cancelTarget = targetOf('cancel');
+
+  useEffect(() => {
+    setIsCancelling(false);
+    setCancelError(null);
+  }, [request]);
+
+  const handleConfirmCancel = async () => {
+    if (!cancelTarget) return;
+    setIsCancelling(true);
+    setCancelError(null);
+    try {
+      const cancelled = await updateBookingStatus(cancelTarget, 'cancelled');
+      applyBookingEvent({ type: 'booking.updated', booking_id: cancelled.id, booking: cancelled });
+      onClose();
+      onOutcome({
+        intent: 'cancel_booking_success',
+        message: `Booking #${cancelTarget.id} cancelled.\nWas: ${describeSlot(cancelTarget)}`,
+      }, 'success');
+    } catch (err) {
+      if (err instanceof BookingQueuedError) {
+        onClose();
+        onOutcome({ intent: 'cancel_booking_pending', message: err.message }, 'warning');
+        return;
+      }
+      setCancelError(err instanceof BookingApiError ? err.message.replace('API request failed: ', '') : 'Could not cancel the booking.');
+      setIsCancelling(false);
+    }
+  };
+
+  const handleRescheduled = ({ previous, booking, queued }: RescheduleResult) => {
+    onClose();
+    invalidateBookings();
+    if (queued) {
+      onOutcome({
+        intent: 'booking_update_pending',
+        message: `Booking #${previous.id} will be rescheduled once the server is reachable again.`
+      }, 'warning');
+      return;
+    }
+    if (!booking) return;
+    onOutcome({
+      intent: 'booking_update_success',
+      message: `Booking #${booking.id} rescheduled.\nFrom: ${describeSlot(previous)}\nTo: ${describeSlot(booking)}`,
+      booking
+    }, 'success');
+  };
+
+  const handleDuplicated = ({ source, booking, queued }: DuplicateResult) => {
+    onClose();
+    if (queued) {
+      onOutcome({
+        intent: 'create_booking_pending',
+        message: `A copy of booking #${source.id} will be created once the server is reachable again.`
+      }, 'warning');
+      return;
+    }
+    if (!booking) return;
+    applyBookingEvent({ type: 'booking.created', booking_id: booking.id, booking });
+    // Rendered as a card so the new booking can be acted on right away
+    onOutcome({
+      intent: 'booking_info',
+      message: `Booking #${source.id} duplicated as #${booking.id}.`,
+      bookings: [booking]
+    }, 'success');
+  };
+
+  return (
+    <>
+      <ConfirmDialog
+        open={!!cancelTarget}
+        title={`Cancel booking #${cancelTarget?.id ?? ''}?`}
+        message={cancelTarget && (
+          <Box>
+            {cancelError && <Alert severity="error" sx={{ mb: 2 }}>{cancelError}</Alert>}
+            {describeSlot(cancelTarget)}
+            {cancelTarget.customer_name ? ` for ${cancelTarget.customer_name}` : ''}.
+            This cannot be undone.
+          </Box>
+        )}
+        confirmLabel="Cancel booking"
+        destructive
+        isBusy={isCancelling}
+        onConfirm={handleConfirmCancel}
+        onClose={onClose}
+      />
+      <RescheduleDialog booking={targetOf('reschedule')} onClose={onClose} onRescheduled={handleRescheduled} />
+      <DuplicateBookingDialog booking={targetOf('duplicate')} onClose={onClose} onDuplicated={handleDuplicated} />
+      <BookingDetailsDialog booking={targetOf('details')} onClose={onClose} />
+    </>
+  );
+};
+
+export default BookingActionDialogs;
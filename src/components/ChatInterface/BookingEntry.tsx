@@ -1,61 +1,39 @@
-import React, { useMemo } from 'react';
+import React from 'react';
 import {
   Box,
   Typography,
   Card,
   CardContent,
-  Chip,
   useTheme,
   alpha,
   Stack,
+  Button,
 } from '@mui/material';
 import {
   Person as PersonIcon,
   Work as WorkIcon,
   AccessTime as AccessTimeIcon,
+  EditCalendar as EditCalendarIcon,
 } from '@mui/icons-material';
 import { Booking } from '../../services/bookingApi';
+import { useBooking } from '../../hooks/useBookings';
+import { BOOKING_STATUS_COLORS, isFinalStatus } from '../../services/bookingStatus';
+import BookingStatusChip from '../BookingStatusChip';
 
 interface BookingEntryProps {
   booking: Booking;
+  onReschedule?: (booking: Booking) => void;
 }
 
-type MessageType = 'info' | 'success' | 'error' | 'warning';
-
-interface StatusInfo {
-  label: string;
-  color: MessageType;
-  bgColor: string;
-}
-
-export const BookingEntry: React.FC<BookingEntryProps> = ({ booking }) => {
+export const BookingEntry: React.FC<BookingEntryProps> = ({ booking: initialBooking, onReschedule }) => {
   const theme = useTheme();
+  const liveBooking = useBooking(initialBooking.id, initialBooking);
+  const isRemoved = liveBooking === null;
+  const booking = liveBooking ?? initialBooking;
 
-  const getStatusInfo = useMemo(() => {
-    const now = new Date();
-    const startTime = new Date(booking.start_time);
-    const endTime = new Date(booking.end_time);
-
-    if (now < startTime) {
-      return {
-        label: 'Upcoming',
-        color: 'info',
-        bgColor: alpha(theme.palette.info.main, 0.1),
-      };
-    } else if (now > endTime) {
-      return {
-        label: 'Completed',
-        color: 'success',
-        bgColor: alpha(theme.palette.success.main, 0.1),
-      };
-    } else {
-      return {
-        label: 'In Progress',
-        color: 'warning',
-        bgColor: alpha(theme.palette.warning.main, 0.1),
-      };
-    }
-  }, [booking.start_time, booking.end_time, theme]);
+  // Tint the card with the status colour; "default" has no palette entry
+  const statusColor = BOOKING_STATUS_COLORS[isRemoved ? 'cancelled' : booking.status];
+  const bgColor = alpha(statusColor === 'default' ? theme.palette.grey[500] : theme.palette[statusColor].main, 0.1);
 
   const formatDateTime = (dateString: string) =>
     new Date(dateString).toLocaleString('default', {
@@ -72,7 +50,7 @@ export const BookingEntry: React.FC<BookingEntryProps> = ({ booking }) => {
       elevation={1}
       sx={{
         width: '100%',
-        bgcolor: getStatusInfo.bgColor,
+        bgcolor: bgColor,
         border: `1px solid ${theme.palette.divider}`,
         transition: 'transform 0.2s ease-in-out, box-shadow 0.2s ease-in-out',
         '&:hover': {
@@ -84,10 +62,10 @@ export const BookingEntry: React.FC<BookingEntryProps> = ({ booking }) => {
     >
       <CardContent sx={{ p: 2, '&:last-child': { pb: 2 } }}>
         <Stack direction="row" justifyContent="space-between" alignItems="center" mb={2}>
-          <Chip
-            label={getStatusInfo.label}
-            color={getStatusInfo.color}
-            size="small"
+          <BookingStatusChip
+            booking={booking}
+            isRemoved={isRemoved}
+            editable={!!onReschedule}
             sx={{
               fontWeight: 600,
               fontSize: '0.75rem',
@@ -143,6 +121,18 @@ export const BookingEntry: React.FC<BookingEntryProps> = ({ booking }) => {
               </Typography>
             </Box>
           </Stack>
+
+          {onReschedule && !isRemoved && !isFinalStatus(booking.status) && (
+            <Stack direction="row" justifyContent="flex-end">
+              <Button
+                size="small"
+                startIcon={<EditCalendarIcon fontSize="small" />}
+                onClick={() => onReschedule(booking)}
+              >
+                Reschedule
+              </Button>
+            </Stack>
+          )}
         </Stack>
       </CardContent>
     </Card>
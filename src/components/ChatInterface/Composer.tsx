@@ -0,0 +1,242 @@
+import React, { KeyboardEvent, useMemo, useState } from 'react';
+import { Box, InputBase, alpha, useTheme } from '@mui/material';
+import { useEntityLexicon } from '../../hooks/useEntityLexicon';
+import {
+  EntityKind,
+  EntitySuggestion,
+  findEntities,
+  suggestEntities,
+} from '../../utils/chatEntities';
+import SuggestionMenu from './SuggestionMenu';
+
+interface ComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  /** Runs before the composer's own handling; call `preventDefault()` to claim the key */
+  onKeyDown?: (e: KeyboardEvent<HTMLElement>) => void;
+  history: string[];          // Previously sent commands, oldest first
+  inputRef: React.RefObject<HTMLTextAreaElement>;
+  placeholder?: string;
+  disableSuggestions?: boolean;
+}
+
+const ENTITY_LABELS: Record<EntityKind, string> = {
+  technician: 'Technician',
+  profession: 'Profession',
+  booking_id: 'Booking',
+  date: 'Date',
+};
+
+// Shared by the textarea and the highlight layer behind it so their text lines up
+const TEXT_STYLE = {
+  font: 'inherit',
+  lineHeight: 1.5,
+  letterSpacing: 'inherit',
+  whiteSpace: 'pre-wrap',
+  overflowWrap: 'break-word',
+} as const;
+
+/**
+ * Chat input that recognizes technicians, professions, booking IDs and dates,
+ * highlights them inline, suggests completions and recalls sent commands.
+ */
+const Composer: React.FC<ComposerProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  onKeyDown,
+  history,
+  inputRef,
+  placeholder,
+  disableSuggestions = false,
+}) => {
+  const theme = useTheme();
+  const lexicon = useEntityLexicon();
+  const [caret, setCaret] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isDismissed, setIsDismissed] = useState(false);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const spans = useMemo(() => findEntities(value, lexicon), [value, lexicon]);
+  const suggestions = useMemo<EntitySuggestion[]>(
+    () => (disableSuggestions || isDismissed ? [] : suggestEntities(value, caret, lexicon)),
+    [value, caret, lexicon, disableSuggestions, isDismissed]
+  );
+
+  const highlightColors: Record<EntityKind, string> = {
+    technician: theme.palette.primary.main,
+    profession: theme.palette.secondary.main,
+    booking_id: theme.palette.warning.main,
+    date: theme.palette.success.main,
+  };
+
+  const syncCaret = () => setCaret(inputRef.current?.selectionStart ?? value.length);
+
+  const setValueAndCaret = (next: string, nextCaret = next.length) => {
+    onChange(next);
+    setCaret(nextCaret);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret));
+  };
+
+  const acceptSuggestion = (suggestion: EntitySuggestion) => {
+    const rest = value.slice(caret);
+    const separator = rest.startsWith(' ') ? '' : ' ';
+    const next = `${value.slice(0, suggestion.from)}${suggestion.insert}${separator}${rest}`;
+    setValueAndCaret(next, suggestion.from + suggestion.insert.length + 1);
+    setActiveIndex(0);
+  };
+
+  const recallHistory = (direction: -1 | 1) => {
+    if (history.length === 0) return false;
+    if (historyIndex === null) {
+      if (direction === 1) return false;
+      setDraft(value);
+      setHistoryIndex(history.length - 1);
+      setValueAndCaret(history[history.length - 1]);
+      return true;
+    }
+    const next = historyIndex + direction;
+    if (next < 0) return true;
+    if (next >= history.length) {
+      setHistoryIndex(null);
+      setValueAndCaret(draft);
+      return true;
+    }
+    setHistoryIndex(next);
+    setValueAndCaret(history[next]);
+    return true;
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement | HTMLInputElement>) => {
+    onKeyDown?.(e);
+    if (e.defaultPrevented) return;
+
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(i => (i + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+        e.preventDefault();
+        acceptSuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setIsDismissed(true);
+        return;
+      }
+    }
+
+    // Recall sent commands from the first/last line, like a shell
+    const position = inputRef.current?.selectionStart ?? 0;
+    if (e.key === 'ArrowUp' && !value.slice(0, position).includes('\n') && recallHistory(-1)) {
+      e.preventDefault();
+      return;
+    }
+    if (e.key === 'ArrowDown' && !value.slice(position).includes('\n') && recallHistory(1)) {
+      e.preventDefault();
+      return;
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      setHistoryIndex(null);
+      onSubmit();
+    }
+  };
+
+  const highlighted: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((span, index) => {
+    highlighted.push(value.slice(cursor, span.start));
+    highlighted.push(
+      <Box
+        key={index}
+        component="mark"
+        sx={{
+          color: 'transparent',
+          bgcolor: alpha(highlightColors[span.kind], 0.18),
+          boxShadow: `inset 0 -2px 0 ${alpha(highlightColors[span.kind], 0.6)}`,
+          borderRadius: 0.5,
+        }}
+      >
+        {value.slice(span.start, span.end)}
+      </Box>
+    );
+    cursor = span.end;
+  });
+  // Zero-width space keeps a trailing newline's height in the highlight layer
+  highlighted.push(`${value.slice(cursor)}\u200b`);
+
+  return (
+    <Box
+      sx={{
+        position: 'relative',
+        flexGrow: 1,
+        px: 1.75,
+        py: 1.25,
+        border: 1,
+        borderColor: 'divider',
+        borderRadius: 1,
+        '&:hover': { borderColor: 'text.primary' },
+        '&:focus-within': { borderColor: 'primary.main', boxShadow: `inset 0 0 0 1px ${theme.palette.primary.main}` },
+      }}
+    >
+      <SuggestionMenu
+        items={suggestions.map((s) => ({
+          id: `${s.kind}:${s.label}`,
+          primary: s.label,
+          secondary: s.detail ? `${ENTITY_LABELS[s.kind]} · ${s.detail}` : ENTITY_LABELS[s.kind],
+        }))}
+        activeIndex={activeIndex}
+        label="Suggestions"
+        onSelect={(index) => acceptSuggestion(suggestions[index])}
+      />
+
+      <Box sx={{ position: 'relative' }}>
+        <Box
+          aria-hidden
+          sx={{
+            ...TEXT_STYLE,
+            position: 'absolute',
+            inset: 0,
+            overflow: 'hidden',
+            pointerEvents: 'none',
+            color: 'transparent',
+          }}
+        >
+          <Box sx={{ transform: `translateY(${-scrollTop}px)` }}>{highlighted}</Box>
+        </Box>
+        <InputBase
+          multiline
+          maxRows={4}
+          fullWidth
+          value={value}
+          placeholder={placeholder}
+          inputRef={inputRef}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCaret(e.target.selectionStart ?? e.target.value.length);
+            setActiveIndex(0);
+            setIsDismissed(false);
+            setHistoryIndex(null);
+          }}
+          onKeyDown={handleKeyDown}
+          onSelect={syncCaret}
+          inputProps={{
+            'aria-label': 'Message',
+            onScroll: (e: React.UIEvent<HTMLTextAreaElement>) => setScrollTop(e.currentTarget.scrollTop),
+          }}
+          sx={{ p: 0, display: 'block', '& textarea': { ...TEXT_STYLE, p: 0 } }}
+        />
+      </Box>
+    </Box>
+  );
+};
+
+export default Composer;
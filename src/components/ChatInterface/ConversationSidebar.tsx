@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+} from '@mui/icons-material';
+import { format, isToday } from 'date-fns';
+import { ConversationSummary } from '../../services/conversationHistory';
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatUpdatedAt = (date: Date) => format(date, isToday(date) ? 'HH:mm' : 'MMM dd, HH:mm');
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  return (
+    <Box
+      sx={{
+        width: 260,
+        flexShrink: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        borderRight: 1,
+        borderColor: 'divider',
+        bgcolor: 'background.paper',
+      }}
+    >
+      <Box sx={{ p: 1.5 }}>
+        <Button fullWidth variant="outlined" startIcon={<AddIcon />} onClick={onNew}>
+          New conversation
+        </Button>
+      </Box>
+
+      {conversations.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ px: 2 }}>
+          Past conversations will appear here.
+        </Typography>
+      ) : (
+        <List dense sx={{ overflowY: 'auto', flexGrow: 1, py: 0 }}>
+          {conversations.map((conversation) =>
+            editingId === conversation.id ? (
+              <Box key={conversation.id} sx={{ px: 1.5, py: 1 }}>
+                <TextField
+                  size="small"
+                  fullWidth
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitEditing}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEditing();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  inputProps={{ 'aria-label': 'Conversation title' }}
+                />
+              </Box>
+            ) : (
+              <ListItemButton
+                key={conversation.id}
+                selected={conversation.id === activeId}
+                onClick={() => onSelect(conversation.id)}
+                sx={{
+                  pr: 1,
+                  '& .conversation-actions': { visibility: 'hidden' },
+                  '&:hover .conversation-actions, &.Mui-selected .conversation-actions': { visibility: 'visible' },
+                }}
+              >
+                <ListItemText
+                  primary={conversation.title}
+                  secondary={`${formatUpdatedAt(conversation.updatedAt)} · ${conversation.messageCount} messages`}
+                  primaryTypographyProps={{ noWrap: true }}
+                />
+                <Box className="conversation-actions" sx={{ display: 'flex', flexShrink: 0 }}>
+                  <Tooltip title="Rename">
+                    <IconButton
+                      size="small"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startEditing(conversation);
+                      }}
+                    >
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton
+                      size="small"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDelete(conversation.id);
+                      }}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              </ListItemButton>
+            )
+          )}
+        </List>
+      )}
+    </Box>
+  );
+};
+
+export default ConversationSidebar;
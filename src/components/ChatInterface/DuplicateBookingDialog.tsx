@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Stack,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { addMinutes, addWeeks, format, isValid, parseISO } from 'date-fns';
+import {
+  Booking,
+  BookingApiError,
+  BookingQueuedError,
+  createBooking,
+} from '../../services/bookingApi';
+import { useBookingConflicts } from '../../hooks/useBookingConflicts';
+import { DEFAULT_BOOKING_MINUTES } from '../../utils/bookingConflicts';
+import ConflictWarning from '../ConflictWarning';
+
+export interface DuplicateResult {
+  source: Booking;
+  booking?: Booking;           // New booking, when the server created it
+  queued?: BookingQueuedError; // Set when the create was queued offline
+}
+
+interface DuplicateBookingDialogProps {
+  booking: Booking | null;
+  onClose: () => void;
+  onDuplicated: (result: DuplicateResult) => void;
+}
+
+interface FormState {
+  customer_name: string;
+  technician_name: string;
+  start: string;  // datetime-local value
+}
+
+// Same slot one week later is the most common repeat visit
+const initialForm = (booking: Booking): FormState => {
+  const start = parseISO(booking.start_time);
+  return {
+    customer_name: booking.customer_name ?? '',
+    technician_name: booking.technician_name ?? '',
+    start: isValid(start) ? format(addWeeks(start, 1), "yyyy-MM-dd'T'HH:mm") : '',
+  };
+};
+
+const DuplicateBookingDialog: React.FC<DuplicateBookingDialogProps> = ({ booking, onClose, onDuplicated }) => {
+  const [form, setForm] = useState<FormState | null>(null);
+  const [errors, setErrors] = useState<Partial<Record<keyof FormState, string>>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const newStart = form ? new Date(form.start) : null;
+  const conflicts = useBookingConflicts(booking && form && newStart && isValid(newStart) ? {
+    technician_name: form.technician_name,
+    profession: booking.profession,
+    start: newStart.toISOString(),
+    end: addMinutes(newStart, DEFAULT_BOOKING_MINUTES).toISOString(),
+  } : null);
+
+  useEffect(() => {
+    setForm(booking ? initialForm(booking) : null);
+    setErrors({});
+    setSubmitError(null);
+    setIsSubmitting(false);
+  }, [booking]);
+
+  const setField = (field: keyof FormState, value: string) => {
+    setForm(prev => (prev ? { ...prev, [field]: value } : prev));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const updateField = (field: keyof FormState) => (e: React.ChangeEvent<HTMLInputElement>) => setField(field, e.target.value);
+
+  const handleSubmit = async () => {
+    if (!booking || !form) return;
+    const start = new Date(form.start);
+    const validationErrors: Partial<Record<keyof FormState, string>> = {};
+    if (!form.customer_name.trim()) validationErrors.customer_name = 'Customer is required';
+    if (!form.technician_name.trim()) validationErrors.technician_name = 'Technician is required';
+    if (!form.start || Number.isNaN(start.getTime())) validationErrors.start = 'Enter a valid start time';
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      const created = await createBooking({
+        customer_name: form.customer_name.trim(),
+        technician_name: form.technician_name.trim(),
+        profession: booking.profession,
+        start_time: start.toISOString(),
+      });
+      onDuplicated({ source: booking, booking: created });
+    } catch (err) {
+      if (err instanceof BookingQueuedError) {
+        onDuplicated({ source: booking, queued: err });
+        return;
+      }
+      setSubmitError(err instanceof BookingApiError ? err.message.replace('API request failed: ', '') : 'Could not duplicate the booking.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!booking} onClose={isSubmitting ? undefined : onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Duplicate booking #{booking?.id}</DialogTitle>
+      <DialogContent>
+        {form && (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {submitError && <Alert severity="error">{submitError}</Alert>}
+            {conflicts && (
+              <ConflictWarning
+                report={conflicts}
+                technician={form.technician_name}
+                disabled={isSubmitting}
+                onPickSlot={start => setField('start', format(parseISO(start), "yyyy-MM-dd'T'HH:mm"))}
+                onPickTechnician={name => setField('technician_name', name)}
+              />
+            )}
+            <TextField
+              label="Customer"
+              value={form.customer_name}
+              onChange={updateField('customer_name')}
+              error={!!errors.customer_name}
+              helperText={errors.customer_name}
+              fullWidth
+            />
+            <TextField
+              label="Technician"
+              value={form.technician_name}
+              onChange={updateField('technician_name')}
+              error={!!errors.technician_name}
+              helperText={errors.technician_name ?? booking?.profession}
+              fullWidth
+            />
+            <TextField
+              label="New start"
+              type="datetime-local"
+              value={form.start}
+              onChange={updateField('start')}
+              error={!!errors.start}
+              helperText={errors.start}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSubmitting}>Cancel</Button>
+        <Button
+          variant="contained"
+          color={conflicts ? 'warning' : 'primary'}
+          onClick={handleSubmit}
+          disabled={isSubmitting}
+          startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          {conflicts ? 'Duplicate anyway' : 'Duplicate'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DuplicateBookingDialog;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Box, Chip, Tooltip, Typography } from '@mui/material';
+import { ConnectionStatus } from '../../services/bookingEvents';
+
+interface LiveUpdatesProps {
+  status: ConnectionStatus;
+  newEventCount: number;
+  onShowEvents: () => void;
+}
+
+const STATUS_LABELS: Record<ConnectionStatus, { label: string; color: string }> = {
+  open: { label: 'Live', color: 'success.light' },
+  connecting: { label: 'Connecting…', color: 'warning.light' },
+  reconnecting: { label: 'Reconnecting…', color: 'warning.light' },
+  closed: { label: 'Offline', color: 'grey.400' },
+};
+
+const LiveUpdates: React.FC<LiveUpdatesProps> = ({ status, newEventCount, onShowEvents }) => {
+  const { label, color } = STATUS_LABELS[status];
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+      {newEventCount > 0 && (
+        <Chip
+          label={`${newEventCount} new ${newEventCount === 1 ? 'update' : 'updates'}`}
+          size="small"
+          onClick={onShowEvents}
+          sx={{ bgcolor: 'common.white', color: 'primary.main', fontWeight: 600 }}
+        />
+      )}
+      <Tooltip title={status === 'open' ? 'Receiving booking changes in real time' : 'Live updates unavailable'}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.75 }}>
+          <Box sx={{ width: 8, height: 8, borderRadius: '50%', bgcolor: color }} />
+          <Typography variant="caption">{label}</Typography>
+        </Box>
+      </Tooltip>
+    </Box>
+  );
+};
+
+export default LiveUpdates;
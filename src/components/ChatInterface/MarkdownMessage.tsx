@@ -0,0 +1,210 @@
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  Divider,
+  alpha,
+} from '@mui/material';
+import { BlockNode, InlineNode, parseMarkdown } from '../../utils/markdown';
+import { EntityLexicon, findEntities } from '../../utils/chatEntities';
+
+interface MarkdownMessageProps {
+  text: string;
+  lexicon?: EntityLexicon;
+  onOpenBooking?: (bookingId: string) => void;
+  onOpenTechnician?: (technicianName: string) => void;
+}
+
+interface EntityHandlers {
+  lexicon?: EntityLexicon;
+  onOpenBooking?: (bookingId: string) => void;
+  onOpenTechnician?: (technicianName: string) => void;
+}
+
+const HEADING_VARIANTS = ['subtitle1', 'subtitle1', 'subtitle2', 'subtitle2', 'body2', 'body2'] as const;
+
+const monospace = { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace', fontSize: '0.85em' };
+
+/** Plain text with known booking IDs and technician names turned into buttons */
+function renderText(text: string, handlers: EntityHandlers, keyPrefix: string): React.ReactNode {
+  const { lexicon, onOpenBooking, onOpenTechnician } = handlers;
+  if (!lexicon || (!onOpenBooking && !onOpenTechnician)) return text;
+
+  const spans = findEntities(text, lexicon).filter(
+    (span) => (span.kind === 'booking_id' && onOpenBooking) || (span.kind === 'technician' && onOpenTechnician)
+  );
+  if (spans.length === 0) return text;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((span, index) => {
+    const label = text.slice(span.start, span.end);
+    parts.push(text.slice(cursor, span.start));
+    parts.push(
+      <Link
+        key={`${keyPrefix}-${index}`}
+        component="button"
+        type="button"
+        underline="hover"
+        onClick={() =>
+          span.kind === 'booking_id'
+            ? onOpenBooking?.(label.replace(/^#/, ''))
+            : onOpenTechnician?.(lexicon.technicians.find((name) => name.toLowerCase() === label.toLowerCase()) ?? label)
+        }
+        sx={{ font: 'inherit', verticalAlign: 'baseline', fontWeight: 500 }}
+      >
+        {label}
+      </Link>
+    );
+    cursor = span.end;
+  });
+  parts.push(text.slice(cursor));
+  return parts;
+}
+
+function renderInline(nodes: InlineNode[], handlers: EntityHandlers, keyPrefix = 'i'): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    const key = `${keyPrefix}-${index}`;
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={key}>{renderText(node.text, handlers, key)}</React.Fragment>;
+      case 'strong':
+        return <strong key={key}>{renderInline(node.children, handlers, key)}</strong>;
+      case 'emphasis':
+        return <em key={key}>{renderInline(node.children, handlers, key)}</em>;
+      case 'code':
+        return (
+          <Box
+            key={key}
+            component="code"
+            sx={{ ...monospace, px: 0.5, py: 0.25, borderRadius: 0.5, bgcolor: 'action.hover' }}
+          >
+            {node.text}
+          </Box>
+        );
+      case 'link':
+        // Entities are not linkified inside links
+        return (
+          <Link key={key} href={node.href} target="_blank" rel="noopener noreferrer">
+            {renderInline(node.children, {}, key)}
+          </Link>
+        );
+      case 'break':
+        return <br key={key} />;
+    }
+  });
+}
+
+function renderBlocks(blocks: BlockNode[], handlers: EntityHandlers): React.ReactNode[] {
+  return blocks.map((block, index) => {
+    const key = `b-${index}`;
+    switch (block.type) {
+      case 'paragraph':
+        return (
+          <Typography key={key} variant="body2" component="p" sx={{ m: 0 }}>
+            {renderInline(block.children, handlers, key)}
+          </Typography>
+        );
+      case 'heading':
+        return (
+          <Typography key={key} variant={HEADING_VARIANTS[block.level - 1]} component="p" sx={{ fontWeight: 600 }}>
+            {renderInline(block.children, handlers, key)}
+          </Typography>
+        );
+      case 'list':
+        return (
+          <Box
+            key={key}
+            component={block.ordered ? 'ol' : 'ul'}
+            start={block.ordered ? block.start : undefined}
+            sx={{ m: 0, pl: 3, typography: 'body2' }}
+          >
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{renderInline(item, handlers, `${key}-${itemIndex}`)}</li>
+            ))}
+          </Box>
+        );
+      case 'code':
+        return (
+          <Box
+            key={key}
+            component="pre"
+            data-language={block.language}
+            sx={{ ...monospace, m: 0, p: 1, borderRadius: 1, bgcolor: 'action.hover', overflowX: 'auto' }}
+          >
+            <code>{block.text}</code>
+          </Box>
+        );
+      case 'table':
+        return (
+          <TableContainer key={key} sx={{ border: 1, borderColor: 'divider', borderRadius: 1, maxWidth: '100%' }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  {block.header.map((cell, column) => (
+                    <TableCell key={column} align={block.align[column]} sx={{ fontWeight: 600 }}>
+                      {renderInline(cell, handlers, `${key}-h${column}`)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {block.rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {row.map((cell, column) => (
+                      <TableCell key={column} align={block.align[column]}>
+                        {renderInline(cell, handlers, `${key}-${rowIndex}-${column}`)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        );
+      case 'quote':
+        return (
+          <Box
+            key={key}
+            component="blockquote"
+            sx={(theme) => ({
+              m: 0,
+              pl: 1.5,
+              borderLeft: `3px solid ${alpha(theme.palette.text.primary, 0.2)}`,
+              color: 'text.secondary',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: 1,
+            })}
+          >
+            {renderBlocks(block.children, handlers)}
+          </Box>
+        );
+      case 'rule':
+        return <Divider key={key} />;
+    }
+  });
+}
+
+/**
+ * Markdown body of an assistant message. Rendered as React elements only,
+ * with booking IDs and technician names linked to their details.
+ */
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ text, lexicon, onOpenBooking, onOpenTechnician }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      {renderBlocks(blocks, { lexicon, onOpenBooking, onOpenTechnician })}
+    </Box>
+  );
+};
+
+export default MarkdownMessage;
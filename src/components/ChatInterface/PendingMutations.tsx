@@ -0,0 +1,59 @@
+import React from 'react';
+import { Box, Chip, Button, Typography, Tooltip, alpha, useTheme } from '@mui/material';
+import { CloudOff as CloudOffIcon, Sync as SyncIcon } from '@mui/icons-material';
+import { format, parseISO } from 'date-fns';
+import { PendingMutation, describeMutation } from '../../services/offlineQueue';
+
+interface PendingMutationsProps {
+  mutations: PendingMutation[];
+  isSyncing: boolean;
+  onSync: () => void;
+}
+
+const PendingMutations: React.FC<PendingMutationsProps> = ({ mutations, isSyncing, onSync }) => {
+  const theme = useTheme();
+
+  if (mutations.length === 0) return null;
+
+  return (
+    <Box
+      sx={{
+        px: 2,
+        py: 1,
+        display: 'flex',
+        alignItems: 'center',
+        gap: 1,
+        flexWrap: 'wrap',
+        bgcolor: alpha(theme.palette.warning.main, 0.1),
+        borderTop: 1,
+        borderColor: 'divider',
+      }}
+    >
+      <CloudOffIcon fontSize="small" color="warning" />
+      <Typography variant="caption" sx={{ fontWeight: 600, color: 'warning.main' }}>
+        {mutations.length} pending {mutations.length === 1 ? 'change' : 'changes'}
+      </Typography>
+      {mutations.map((mutation) => (
+        <Tooltip
+          key={mutation.id}
+          title={`Queued ${format(parseISO(mutation.queuedAt), 'MMM dd, HH:mm')}${
+            mutation.lastError ? ` · last attempt: ${mutation.lastError}` : ''
+          }`}
+        >
+          <Chip label={describeMutation(mutation)} size="small" color="warning" variant="outlined" />
+        </Tooltip>
+      ))}
+      <Button
+        size="small"
+        startIcon={<SyncIcon />}
+        onClick={onSync}
+        disabled={isSyncing}
+        sx={{ ml: 'auto' }}
+      >
+        {isSyncing ? 'Syncing…' : 'Sync now'}
+      </Button>
+    </Box>
+  );
+};
+
+export default PendingMutations;
@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Box,
+  Chip,
+  Stack,
+  Typography,
+  FormControlLabel,
+  Checkbox,
+  LinearProgress,
+  Paper,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import { format } from 'date-fns';
+import {
+  ReplayStep,
+  Transcript,
+  getReplaySteps,
+  isMutatingStep,
+  replayTranscript,
+  summarizeRecordedReply,
+  summarizeReplayedBatch,
+  summarizeReplayedReply,
+} from '../../services/transcript';
+import { DiffLine, diffLines } from '../../utils/textDiff';
+
+interface ReplayDialogProps {
+  transcript: Transcript | null;
+  onClose: () => void;
+}
+
+type StepOutcome = 'pending' | 'same' | 'changed' | 'error' | 'skipped';
+
+const OUTCOME_CHIPS: Record<StepOutcome, { label: string; color: 'default' | 'success' | 'warning' | 'error' | 'info' }> = {
+  pending: { label: 'Not run', color: 'default' },
+  same: { label: 'Same', color: 'success' },
+  changed: { label: 'Changed', color: 'warning' },
+  error: { label: 'Error', color: 'error' },
+  skipped: { label: 'Skipped', color: 'info' },
+};
+
+function compareStep(step: ReplayStep): { outcome: StepOutcome; diff: DiffLine[] } {
+  const before = summarizeRecordedReply(step.original);
+  const after = step.replayedBatch
+    ? summarizeReplayedBatch(step.replayedBatch)
+    : step.replayed && summarizeReplayedReply(step.replayed);
+  if (step.status !== 'done' || !after) {
+    return {
+      outcome: step.status === 'done' ? 'error' : step.status,
+      diff: before.map((text) => ({ kind: 'same', text })),
+    };
+  }
+  const diff = diffLines(before, after);
+  return { outcome: diff.some((line) => line.kind !== 'same') ? 'changed' : 'same', diff };
+}
+
+const DiffColumn: React.FC<{ title: string; lines: DiffLine[]; hidden: DiffLine['kind']; emptyText: string }> = ({
+  title,
+  lines,
+  hidden,
+  emptyText,
+}) => {
+  const theme = useTheme();
+  const colors = { removed: theme.palette.error.main, added: theme.palette.success.main, same: 'transparent' };
+  const visible = lines.filter((line) => line.kind !== hidden);
+
+  return (
+    <Box sx={{ flex: 1, minWidth: 0 }}>
+      <Typography variant="caption" color="text.secondary">{title}</Typography>
+      <Box
+        component="pre"
+        sx={{
+          m: 0,
+          p: 1,
+          fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+          fontSize: '0.8rem',
+          whiteSpace: 'pre-wrap',
+          wordBreak: 'break-word',
+          bgcolor: 'action.hover',
+          borderRadius: 1,
+          minHeight: 40,
+        }}
+      >
+        {visible.length === 0 && <Box component="span" sx={{ color: 'text.secondary' }}>{emptyText}</Box>}
+        {visible.map((line, index) => (
+          <Box
+            key={index}
+            component="div"
+            sx={{ bgcolor: alpha(colors[line.kind], line.kind === 'same' ? 0 : 0.15), px: 0.5 }}
+          >
+            {line.kind === 'removed' ? '- ' : line.kind === 'added' ? '+ ' : '  '}
+            {line.text}
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+/** Replays an imported transcript and shows each recorded reply next to the new one */
+const ReplayDialog: React.FC<ReplayDialogProps> = ({ transcript, onClose }) => {
+  const [steps, setSteps] = useState<ReplayStep[]>([]);
+  const [includeMutations, setIncludeMutations] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [hasRun, setHasRun] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    abortRef.current?.abort();
+    setSteps(transcript ? getReplaySteps(transcript) : []);
+    setIsRunning(false);
+    setHasRun(false);
+  }, [transcript]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleRun = async () => {
+    if (!transcript) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const initial = getReplaySteps(transcript);
+    setSteps(initial);
+    setIsRunning(true);
+    setHasRun(true);
+    try {
+      await replayTranscript(initial, {
+        signal: controller.signal,
+        includeMutations,
+        onStep: (index, step) => setSteps(prev => prev.map((s, i) => (i === index ? step : s))),
+      });
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsRunning(false);
+  };
+
+  const compared = steps.map(compareStep);
+  const finished = steps.filter(step => step.status !== 'pending').length;
+  const mutatingCount = steps.filter(isMutatingStep).length;
+
+  return (
+    <Dialog open={!!transcript} onClose={isRunning ? undefined : onClose} fullWidth maxWidth="lg">
+      <DialogTitle>
+        Replay: {transcript?.title}
+        {transcript && (
+          <Typography variant="caption" component="div" color="text.secondary">
+            Exported {format(transcript.exportedAt, 'MMM dd, yyyy HH:mm')} · {steps.length} command{steps.length === 1 ? '' : 's'}
+          </Typography>
+        )}
+      </DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          {mutatingCount > 0 && (
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={includeMutations}
+                  onChange={e => setIncludeMutations(e.target.checked)}
+                  disabled={isRunning}
+                />
+              }
+              label={`Also replay ${mutatingCount} command${mutatingCount === 1 ? '' : 's'} that created or cancelled bookings (changes live data)`}
+            />
+          )}
+          {isRunning && <LinearProgress variant="determinate" value={(finished / Math.max(steps.length, 1)) * 100} />}
+          {steps.length === 0 && (
+            <Typography variant="body2" color="text.secondary">This transcript has no user messages to replay.</Typography>
+          )}
+          {steps.map((step, index) => {
+            const { outcome, diff } = compared[index];
+            const chip = OUTCOME_CHIPS[outcome];
+            return (
+              <Paper key={index} variant="outlined" sx={{ p: 1.5 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                  <Typography variant="body2" sx={{ fontWeight: 600, flexGrow: 1, wordBreak: 'break-word' }}>
+                    {index + 1}. {step.command}
+                  </Typography>
+                  <Chip label={chip.label} color={chip.color} size="small" />
+                </Box>
+                <Box sx={{ display: 'flex', gap: 1.5, flexDirection: { xs: 'column', md: 'row' } }}>
+                  <DiffColumn title="Recorded" lines={diff} hidden="added" emptyText="No reply recorded." />
+                  <DiffColumn
+                    title="Replayed"
+                    lines={step.status === 'done' ? diff : []}
+                    hidden="removed"
+                    emptyText={step.error ?? step.skipReason ?? 'Not replayed yet.'}
+                  />
+                </Box>
+              </Paper>
+            );
+          })}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isRunning}>Close</Button>
+        {isRunning ? (
+          <Button variant="outlined" color="error" onClick={handleStop}>Stop</Button>
+        ) : (
+          <Button variant="contained" onClick={handleRun} disabled={steps.length === 0}>
+            {hasRun ? 'Replay again' : 'Replay'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReplayDialog;
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Stack,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { addHours, addMilliseconds, format, isValid, parseISO } from 'date-fns';
+import {
+  Booking,
+  BookingApiError,
+  BookingQueuedError,
+  BookingUpdatePayload,
+  updateBooking,
+} from '../../services/bookingApi';
+import { useBookingConflicts } from '../../hooks/useBookingConflicts';
+import ConflictWarning from '../ConflictWarning';
+
+export interface RescheduleResult {
+  previous: Booking;
+  booking?: Booking;          // Updated booking, when the server applied it
+  queued?: BookingQueuedError; // Set when the change was queued offline
+}
+
+interface RescheduleDialogProps {
+  booking: Booking | null;
+  onClose: () => void;
+  onRescheduled: (result: RescheduleResult) => void;
+}
+
+interface FormState {
+  technician_name: string;
+  profession: string;
+  start: string;  // datetime-local value
+  end: string;    // datetime-local value
+}
+
+const toInputValue = (iso?: string): string => {
+  if (!iso) return '';
+  const date = parseISO(iso);
+  return isValid(date) ? format(date, "yyyy-MM-dd'T'HH:mm") : '';
+};
+
+const initialForm = (booking: Booking): FormState => ({
+  technician_name: booking.technician_name ?? '',
+  profession: booking.profession ?? '',
+  start: toInputValue(booking.start_time),
+  end: toInputValue(booking.end_time) || (booking.start_time ? toInputValue(addHours(parseISO(booking.start_time), 1).toISOString()) : ''),
+});
+
+/** Validate the form and build the partial update; returns field errors when invalid */
+function buildRescheduleChanges(
+  booking: Booking,
+  form: FormState
+): { changes?: BookingUpdatePayload; errors: Partial<Record<keyof FormState, string>> } {
+  const errors: Partial<Record<keyof FormState, string>> = {};
+  const start = new Date(form.start);
+  const end = new Date(form.end);
+
+  if (!form.technician_name.trim()) errors.technician_name = 'Technician is required';
+  if (!form.profession.trim()) errors.profession = 'Profession is required';
+  if (!form.start || Number.isNaN(start.getTime())) errors.start = 'Enter a valid start time';
+  if (!form.end || Number.isNaN(end.getTime())) errors.end = 'Enter a valid end time';
+  else if (!errors.start && end <= start) errors.end = 'End must be after start';
+
+  if (Object.keys(errors).length > 0) return { errors };
+
+  const changes: BookingUpdatePayload = {};
+  if (form.technician_name.trim() !== booking.technician_name) changes.technician_name = form.technician_name.trim();
+  if (form.profession.trim() !== booking.profession) changes.profession = form.profession.trim();
+  if (form.start !== toInputValue(booking.start_time)) changes.start_time = start.toISOString();
+  if (form.end !== toInputValue(booking.end_time)) changes.end_time = end.toISOString();
+
+  return { changes, errors };
+}
+
+const RescheduleDialog: React.FC<RescheduleDialogProps> = ({ booking, onClose, onRescheduled }) => {
+  const [form, setForm] = useState<FormState | null>(null);
+  const [errors, setErrors] = useState<Partial<Record<keyof FormState, string>>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const conflicts = useBookingConflicts(booking && form ? { ...form, ignoreId: booking.id } : null);
+
+  useEffect(() => {
+    setForm(booking ? initialForm(booking) : null);
+    setErrors({});
+    setSubmitError(null);
+    setIsSubmitting(false);
+  }, [booking]);
+
+  const setField = (field: keyof FormState, value: string) => {
+    setForm(prev => (prev ? { ...prev, [field]: value } : prev));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const updateField = (field: keyof FormState) => (e: React.ChangeEvent<HTMLInputElement>) => setField(field, e.target.value);
+
+  // Keep the booking's length when moving it to a suggested slot
+  const handlePickSlot = (startIso: string) => {
+    if (!form) return;
+    const start = parseISO(startIso);
+    const duration = new Date(form.end).getTime() - new Date(form.start).getTime();
+    setField('start', toInputValue(start.toISOString()));
+    setField('end', toInputValue(addMilliseconds(start, duration).toISOString()));
+  };
+
+  const handleSubmit = async () => {
+    if (!booking || !form) return;
+    const { changes, errors: validationErrors } = buildRescheduleChanges(booking, form);
+    setErrors(validationErrors);
+    if (!changes) return;
+    if (Object.keys(changes).length === 0) {
+      setSubmitError('Nothing changed. Adjust the technician, profession or times first.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      const updated = await updateBooking(booking.id, changes);
+      onRescheduled({ previous: booking, booking: updated });
+    } catch (err) {
+      if (err instanceof BookingQueuedError) {
+        onRescheduled({ previous: booking, queued: err });
+        return;
+      }
+      setSubmitError(err instanceof BookingApiError ? err.message.replace('API request failed: ', '') : 'Could not reschedule the booking.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!booking} onClose={isSubmitting ? undefined : onClose} fullWidth maxWidth="xs">
+      <DialogTitle>Reschedule booking #{booking?.id}</DialogTitle>
+      <DialogContent>
+        {form && (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {submitError && <Alert severity="error">{submitError}</Alert>}
+            {conflicts && (
+              <ConflictWarning
+                report={conflicts}
+                technician={form.technician_name}
+                disabled={isSubmitting}
+                onPickSlot={handlePickSlot}
+                onPickTechnician={name => setField('technician_name', name)}
+              />
+            )}
+            <TextField
+              label="Technician"
+              value={form.technician_name}
+              onChange={updateField('technician_name')}
+              error={!!errors.technician_name}
+              helperText={errors.technician_name}
+              fullWidth
+            />
+            <TextField
+              label="Profession"
+              value={form.profession}
+              onChange={updateField('profession')}
+              error={!!errors.profession}
+              helperText={errors.profession}
+              fullWidth
+            />
+            <TextField
+              label="Start"
+              type="datetime-local"
+              value={form.start}
+              onChange={updateField('start')}
+              error={!!errors.start}
+              helperText={errors.start}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+            <TextField
+              label="End"
+              type="datetime-local"
+              value={form.end}
+              onChange={updateField('end')}
+              error={!!errors.end}
+              helperText={errors.end}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSubmitting}>Cancel</Button>
+        <Button
+          variant="contained"
+          color={conflicts ? 'warning' : 'primary'}
+          onClick={handleSubmit}
+          disabled={isSubmitting}
+          startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          {conflicts ? 'Reschedule anyway' : 'Reschedule'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RescheduleDialog;
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { Autocomplete, Box, Button, Stack, TextField, Typography, alpha, useTheme } from '@mui/material';
+import { addHours, format, startOfHour } from 'date-fns';
+import { useRecentBookings } from '../../hooks/useBookings';
+import { SlashCommandName, SlashCommandRequest } from './slashCommands';
+
+interface SlashCommandFormProps {
+  command: Exclude<SlashCommandName, 'list'>;
+  initialValue?: string;   // Argument already typed after the command
+  onSubmit: (request: SlashCommandRequest) => void;
+  onCancel: () => void;
+}
+
+interface BookForm {
+  customer_name: string;
+  technician_name: string;
+  profession: string;
+  start: string;   // datetime-local value
+}
+
+const TITLES: Record<SlashCommandFormProps['command'], string> = {
+  book: 'Book a technician',
+  cancel: 'Cancel a booking',
+  find: 'Find a booking',
+};
+
+const nextHour = () => format(addHours(startOfHour(new Date()), 1), "yyyy-MM-dd'T'HH:mm");
+
+/** Inline parameter form for slash commands that need more than the typed argument */
+const SlashCommandForm: React.FC<SlashCommandFormProps> = ({ command, initialValue = '', onSubmit, onCancel }) => {
+  const theme = useTheme();
+  const { bookings } = useRecentBookings();
+  const [bookingId, setBookingId] = useState(initialValue.replace(/^#/, ''));
+  const [form, setForm] = useState<BookForm>({
+    customer_name: '',
+    technician_name: initialValue,
+    profession: '',
+    start: nextHour(),
+  });
+  const [errors, setErrors] = useState<Partial<Record<keyof BookForm | 'bookingId', string>>>({});
+
+  // Suggest technicians and professions that already appear in bookings
+  const technicians = useMemo(() => Array.from(new Set(bookings.map((b) => b.technician_name))).sort(), [bookings]);
+  const professions = useMemo(() => {
+    const matching = form.technician_name
+      ? bookings.filter((b) => b.technician_name === form.technician_name)
+      : bookings;
+    return Array.from(new Set(matching.map((b) => b.profession))).sort();
+  }, [bookings, form.technician_name]);
+
+  const updateField = (field: keyof BookForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (command !== 'book') {
+      const id = bookingId.trim().replace(/^#/, '');
+      if (!id) {
+        setErrors({ bookingId: 'Booking ID is required' });
+        return;
+      }
+      onSubmit({ name: command, bookingId: id });
+      return;
+    }
+
+    const nextErrors: typeof errors = {};
+    const start = new Date(form.start);
+    if (!form.customer_name.trim()) nextErrors.customer_name = 'Customer is required';
+    if (!form.technician_name.trim()) nextErrors.technician_name = 'Technician is required';
+    if (!form.profession.trim()) nextErrors.profession = 'Profession is required';
+    if (!form.start || Number.isNaN(start.getTime())) nextErrors.start = 'Enter a valid start time';
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    onSubmit({
+      name: 'book',
+      payload: {
+        customer_name: form.customer_name.trim(),
+        technician_name: form.technician_name.trim(),
+        profession: form.profession.trim(),
+        start_time: start.toISOString(),
+      },
+    });
+  };
+
+  return (
+    <Box
+      component="form"
+      onSubmit={handleSubmit}
+      sx={{ px: 2, py: 1.5, borderTop: 1, borderColor: 'divider', bgcolor: alpha(theme.palette.primary.main, 0.04) }}
+    >
+      <Typography variant="subtitle2" sx={{ mb: 1 }}>
+        <Box component="span" sx={{ fontFamily: 'monospace' }}>/{command}</Box> · {TITLES[command]}
+      </Typography>
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'flex-start' }}>
+        {command === 'book' ? (
+          <>
+            <TextField
+              size="small"
+              label="Customer"
+              value={form.customer_name}
+              onChange={(e) => updateField('customer_name', e.target.value)}
+              error={!!errors.customer_name}
+              helperText={errors.customer_name}
+              autoFocus
+            />
+            <Autocomplete
+              freeSolo
+              options={technicians}
+              inputValue={form.technician_name}
+              onInputChange={(_, value) => updateField('technician_name', value)}
+              sx={{ minWidth: 180 }}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  size="small"
+                  label="Technician"
+                  error={!!errors.technician_name}
+                  helperText={errors.technician_name}
+                />
+              )}
+            />
+            <Autocomplete
+              freeSolo
+              options={professions}
+              inputValue={form.profession}
+              onInputChange={(_, value) => updateField('profession', value)}
+              sx={{ minWidth: 160 }}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  size="small"
+                  label="Profession"
+                  error={!!errors.profession}
+                  helperText={errors.profession}
+                />
+              )}
+            />
+            <TextField
+              size="small"
+              label="Start"
+              type="datetime-local"
+              value={form.start}
+              onChange={(e) => updateField('start', e.target.value)}
+              error={!!errors.start}
+              helperText={errors.start}
+              InputLabelProps={{ shrink: true }}
+            />
+          </>
+        ) : (
+          <TextField
+            size="small"
+            label="Booking ID"
+            value={bookingId}
+            onChange={(e) => {
+              setBookingId(e.target.value);
+              setErrors({});
+            }}
+            error={!!errors.bookingId}
+            helperText={errors.bookingId}
+            autoFocus
+          />
+        )}
+        <Stack direction="row" spacing={1} sx={{ pt: 0.25 }}>
+          <Button type="submit" variant="contained" color={command === 'cancel' ? 'error' : 'primary'}>
+            {command === 'book' ? 'Book' : command === 'cancel' ? 'Cancel booking' : 'Find'}
+          </Button>
+          <Button onClick={onCancel}>Close</Button>
+        </Stack>
+      </Stack>
+    </Box>
+  );
+};
+
+export default SlashCommandForm;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { List, ListItemButton, ListItemText, Paper } from '@mui/material';
+
+export interface SuggestionItem {
+  id: string;
+  primary: string;
+  secondary?: string;
+}
+
+interface SuggestionMenuProps {
+  items: SuggestionItem[];
+  activeIndex: number;
+  label: string;
+  monospace?: boolean;
+  onSelect: (index: number) => void;
+}
+
+/** Autocomplete popup shown above the chat input (slash commands, entities) */
+const SuggestionMenu: React.FC<SuggestionMenuProps> = ({ items, activeIndex, label, monospace, onSelect }) => {
+  if (items.length === 0) return null;
+
+  return (
+    <Paper
+      elevation={6}
+      sx={{ position: 'absolute', bottom: '100%', left: 16, mb: 1, minWidth: 280, zIndex: 1, overflow: 'hidden' }}
+    >
+      <List dense disablePadding role="listbox" aria-label={label}>
+        {items.map((item, index) => (
+          <ListItemButton
+            key={item.id}
+            selected={index === activeIndex}
+            role="option"
+            aria-selected={index === activeIndex}
+            // Keep focus in the input while choosing
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(index)}
+          >
+            <ListItemText
+              primary={item.primary}
+              secondary={item.secondary}
+              primaryTypographyProps={{ fontFamily: monospace ? 'monospace' : undefined, fontWeight: 600 }}
+            />
+          </ListItemButton>
+        ))}
+      </List>
+    </Paper>
+  );
+};
+
+export default SuggestionMenu;
@@ -10,6 +10,7 @@ import {
   Tooltip,
   Fade,
   Slide,
+  Button,
 } from '@mui/material';
 import {
   Info as InfoIcon,
@@ -20,9 +21,26 @@ import {
   CalendarToday,
   Person,
   WorkOutline,
-  Schedule
+  Schedule,
+  EditCalendar,
+  EventBusy,
+  InfoOutlined,
+  LibraryAdd,
+  OpenInNew
 } from '@mui/icons-material';
+import { Link as RouterLink } from 'react-router-dom';
 import { format, parseISO } from 'date-fns';
+import { Booking, BookingCreatePayload, IntentAnalysis } from '../../services/bookingApi';
+import { MessageType, SystemMessageContent } from '../../services/conversationHistory';
+import { useBooking } from '../../hooks/useBookings';
+import { EntityLexicon } from '../../utils/chatEntities';
+import { BookingAction } from './BookingActionDialogs';
+import MarkdownMessage from './MarkdownMessage';
+import TypingIndicator from './TypingIndicator';
+import BatchSummary from './BatchSummary';
+import ConflictWarning from '../ConflictWarning';
+import BookingStatusChip from '../BookingStatusChip';
+import { isActiveStatus, isFinalStatus } from '../../services/bookingStatus';
 
 const typeIcons = {
   info: <InfoIcon fontSize="small" />,
@@ -31,7 +49,7 @@ const typeIcons = {
   error: <ErrorIcon fontSize="small" />,
 };
 
-const getStatusColor = (type: 'info' | 'success' | 'error' | 'warning') => {
+const getStatusColor = (type: MessageType) => {
   const colors = {
     info: '#2196f3',
     success: '#4caf50',
@@ -42,95 +60,150 @@ const getStatusColor = (type: 'info' | 'success' | 'error' | 'warning') => {
 };
 
 interface SystemMessageProps {
-  content: {
-    intent: string;
-    message: string;
-    bookings?: any[];
-    booking?: any;
-  };
+  content: SystemMessageContent;
   timestamp: Date;
-  type: 'info' | 'success' | 'error' | 'warning';
+  type: MessageType;
+  onAction?: (action: BookingAction, booking: Booking) => void;
+  onClarify?: (candidate: IntentAnalysis) => void;
+  lexicon?: EntityLexicon;           // Known entities to link in the message text
+  onOpenBooking?: (bookingId: string) => void;
+  onOpenTechnician?: (technicianName: string) => void;
+  isStreaming?: boolean;             // Reply is still arriving
+  onRetryBatch?: () => void;
+  onResolveConflict?: (payload: BookingCreatePayload, force: boolean) => void;
 }
 
-const SystemMessage = React.forwardRef<HTMLDivElement, SystemMessageProps>(
-  ({ content, timestamp, type }, ref) => {
-    const handleCopy = (text: string) => {
-      navigator.clipboard.writeText(text).catch(console.error);
-    };
+/** "create_booking" -> "Create booking" */
+const humanizeIntent = (intent: string) => {
+  const text = intent.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
 
-    const renderBookingCard = (booking: any, index: number) => {
-      if (!booking) return null;
+interface BookingCardProps {
+  booking: Booking;
+  index: number;
+  type: MessageType;
+  onCopy: (text: string) => void;
+  onAction?: (action: BookingAction, booking: Booking) => void;
+}
 
-      const startTime = booking.start_time ? parseISO(booking.start_time) : null;
-      const endTime = booking.end_time ? parseISO(booking.end_time) : null;
-      const bookingStatus = booking.status?.toLowerCase() === 'cancelled' ? 'error' : 'success';
+/** Booking card that follows live updates to its booking */
+const BookingCard: React.FC<BookingCardProps> = ({ booking: initialBooking, index, type, onCopy, onAction }) => {
+  const liveBooking = useBooking(initialBooking.id, initialBooking);
+  const isRemoved = liveBooking === null;
+  const booking = liveBooking ?? initialBooking;
+  // Completed, cancelled and no-show bookings can no longer be moved or cancelled
+  const isClosed = isFinalStatus(booking.status);
 
-      return (
-        <Grid item xs={12} sm={6} lg={4} key={index}>
-          <Slide direction="up" in timeout={(index + 1) * 150}>
-            <Card sx={{
-              height: '100%',
-              borderLeft: `4px solid ${getStatusColor(type)}`,
-              backgroundColor: 'background.paper',
-              transition: 'transform 0.2s ease, box-shadow 0.2s ease',
-              '&:hover': {
-                transform: 'translateY(-2px)',
-                boxShadow: 4,
-              },
-            }}>
-              <CardContent>
-                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
-                  <Chip
-                    label={`Booking #${booking.id}`}
+  const startTime = booking.start_time ? parseISO(booking.start_time) : null;
+  const endTime = booking.end_time ? parseISO(booking.end_time) : null;
+
+  return (
+    <Grid item xs={12} sm={6} lg={4}>
+      <Slide direction="up" in timeout={(index + 1) * 150}>
+        <Card sx={{
+          height: '100%',
+          borderLeft: `4px solid ${getStatusColor(type)}`,
+          backgroundColor: 'background.paper',
+          opacity: isRemoved || !isActiveStatus(booking.status) ? 0.6 : 1,
+          transition: 'transform 0.2s ease, box-shadow 0.2s ease',
+          '&:hover': {
+            transform: 'translateY(-2px)',
+            boxShadow: 4,
+          },
+        }}>
+          <CardContent>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1.5 }}>
+              <Chip
+                label={`Booking #${booking.id}`}
+                size="small"
+                color={type}
+                icon={<OpenInNew fontSize="inherit" />}
+                component={RouterLink}
+                to={`/bookings/${encodeURIComponent(booking.id)}`}
+                clickable
+              />
+              <Tooltip title="Copy booking details">
+                <span>
+                  <IconButton
                     size="small"
-                    color={type}
-                    icon={<ContentCopy fontSize="inherit" />}
-                    onClick={() => handleCopy(booking.id)}
-                  />
-                  <Tooltip title="Copy booking details">
-                    <span>
-                      <IconButton
-                        size="small"
-                        onClick={() => handleCopy(JSON.stringify(booking, null, 2))}
-                      >
-                        <ContentCopy fontSize="small" />
-                      </IconButton>
-                    </span>
-                  </Tooltip>
-                </Box>
+                    onClick={() => onCopy(JSON.stringify(booking, null, 2))}
+                  >
+                    <ContentCopy fontSize="small" />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Box>
 
-                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
-                  <Person fontSize="small" color="action" />
-                  <Typography variant="body2">{booking.technician_name ?? 'Unknown Technician'}</Typography>
-                </Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <Person fontSize="small" color="action" />
+              <Typography variant="body2">{booking.technician_name || 'Unknown Technician'}</Typography>
+            </Box>
 
-                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
-                  <WorkOutline fontSize="small" color="action" />
-                  <Typography variant="body2">{booking.profession ?? 'Unknown Profession'}</Typography>
-                </Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+              <WorkOutline fontSize="small" color="action" />
+              <Typography variant="body2">{booking.profession || 'Unknown Profession'}</Typography>
+            </Box>
 
-                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
-                  <Schedule fontSize="small" color="action" />
-                  <Typography variant="body2">
-                    {startTime ? format(startTime, 'MMM dd, yyyy HH:mm') : 'N/A'} -{' '}
-                    {endTime ? format(endTime, 'HH:mm') : 'N/A'}
-                  </Typography>
-                </Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+              <Schedule fontSize="small" color="action" />
+              <Typography variant="body2">
+                {startTime ? format(startTime, 'MMM dd, yyyy HH:mm') : 'N/A'} -{' '}
+                {endTime ? format(endTime, 'HH:mm') : 'N/A'}
+              </Typography>
+            </Box>
 
-                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                  <Chip
-                    label={booking.status ?? 'Confirmed'}
-                    size="small"
-                    color={bookingStatus}
-                    variant="outlined"
-                  />
-                  <CalendarToday fontSize="small" color="action" />
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <BookingStatusChip booking={booking} isRemoved={isRemoved} editable={!!onAction} variant="outlined" />
+              {onAction && !isRemoved ? (
+                <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                  {!isClosed && (
+                    <Button
+                      size="small"
+                      startIcon={<EditCalendar fontSize="small" />}
+                      onClick={() => onAction('reschedule', booking)}
+                    >
+                      Reschedule
+                    </Button>
+                  )}
+                  <Tooltip title="Details">
+                    <IconButton size="small" onClick={() => onAction('details', booking)}>
+                      <InfoOutlined fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Duplicate for another date">
+                    <IconButton size="small" onClick={() => onAction('duplicate', booking)}>
+                      <LibraryAdd fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  {!isClosed && (
+                    <Tooltip title="Cancel booking">
+                      <IconButton size="small" color="error" onClick={() => onAction('cancel', booking)}>
+                        <EventBusy fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
                 </Box>
-              </CardContent>
-            </Card>
-          </Slide>
-        </Grid>
-      );
+              ) : (
+                <CalendarToday fontSize="small" color="action" />
+              )}
+            </Box>
+          </CardContent>
+        </Card>
+      </Slide>
+    </Grid>
+  );
+};
+
+const SystemMessage = React.forwardRef<HTMLDivElement, SystemMessageProps>(
+  ({ content, timestamp, type, onAction, onClarify, lexicon, onOpenBooking, onOpenTechnician, isStreaming = false, onRetryBatch, onResolveConflict }, ref) => {
+    const handleCopy = (text: string) => {
+      navigator.clipboard.writeText(text).catch(console.error);
+    };
+
+    const conflict = content.conflict;
+    const resolveConflict = (changes: Partial<BookingCreatePayload>, force = false) => {
+      if (conflict) onResolveConflict?.({ ...conflict.payload, ...changes }, force);
     };
 
     if (content.intent === 'booking_info' && Array.isArray(content.bookings) && content.bookings.length > 0) {
@@ -150,9 +223,38 @@ const SystemMessage = React.forwardRef<HTMLDivElement, SystemMessageProps>(
               >
                 {typeIcons[type]}
                 Booking Details
+                {isStreaming && <TypingIndicator />}
               </Typography>
+              {content.legacyParsed && (
+                <Typography
+                  variant="caption"
+                  sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 1, color: 'warning.main' }}
+                >
+                  <WarningIcon fontSize="inherit" />
+                  Read from a text-only server reply. Customer names and end times may be missing.
+                </Typography>
+              )}
+              {content.message && (
+                <Box sx={{ mb: 1.5 }}>
+                  <MarkdownMessage
+                    text={content.message}
+                    lexicon={lexicon}
+                    onOpenBooking={onOpenBooking}
+                    onOpenTechnician={onOpenTechnician}
+                  />
+                </Box>
+              )}
               <Grid container spacing={2}>
-                {content.bookings.map((booking, index) => renderBookingCard(booking, index))}
+                {content.bookings.map((booking, index) => (
+                  <BookingCard
+                    key={booking.id || index}
+                    booking={booking}
+                    index={index}
+                    type={type}
+                    onCopy={handleCopy}
+                    onAction={onAction}
+                  />
+                ))}
               </Grid>
               <Typography variant="caption" sx={{ display: 'block', mt: 1, textAlign: 'right', color: 'text.secondary' }}>
                 Updated: {format(timestamp, 'MMM dd, yyyy HH:mm')}
@@ -177,17 +279,53 @@ const SystemMessage = React.forwardRef<HTMLDivElement, SystemMessageProps>(
           maxWidth: '100%',
           wordBreak: 'break-word'
         }}>
-          <Typography variant="body2" component="div">
-            {content.message.split('\n').map((line, index) => (
-              <React.Fragment key={index}>
-                {line}
-                <br />
-              </React.Fragment>
-            ))}
-          </Typography>
-          <Typography variant="caption" sx={{ display: 'block', mt: 0.5, color: 'text.secondary' }}>
-            {format(timestamp, 'HH:mm')}
-          </Typography>
+          <MarkdownMessage
+            text={content.message}
+            lexicon={lexicon}
+            onOpenBooking={onOpenBooking}
+            onOpenTechnician={onOpenTechnician}
+          />
+          {isStreaming && <TypingIndicator />}
+          {content.batch && <BatchSummary batch={content.batch} onRetry={onRetryBatch} />}
+          {conflict && !conflict.resolved && (
+            <Box sx={{ mt: 1 }}>
+              <ConflictWarning
+                report={conflict.report}
+                technician={conflict.payload.technician_name}
+                disabled={!onResolveConflict}
+                onOpenBooking={onOpenBooking}
+                onPickSlot={start => resolveConflict({ start_time: start })}
+                onPickTechnician={name => resolveConflict({ technician_name: name })}
+                onProceed={() => resolveConflict({}, true)}
+              />
+            </Box>
+          )}
+          {content.clarification && (
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mt: 1 }}>
+              {content.clarification.candidates.map((candidate) => {
+                const isChosen = content.clarification?.chosenIntent === candidate.intent;
+                return (
+                  <Tooltip key={candidate.intent} title={candidate.assessment}>
+                    <span>
+                      <Chip
+                        label={`${humanizeIntent(candidate.intent)} · ${Math.round(candidate.confidence * 100)}%`}
+                        size="small"
+                        color={isChosen ? 'primary' : 'default'}
+                        variant={isChosen ? 'filled' : 'outlined'}
+                        onClick={onClarify ? () => onClarify(candidate) : undefined}
+                        disabled={!!content.clarification?.chosenIntent && !isChosen}
+                      />
+                    </span>
+                  </Tooltip>
+                );
+              })}
+            </Box>
+          )}
+          {!isStreaming && (
+            <Typography variant="caption" sx={{ display: 'block', mt: 0.5, color: 'text.secondary' }}>
+              {format(timestamp, 'HH:mm')}
+            </Typography>
+          )}
         </Box>
       </Box>
     );
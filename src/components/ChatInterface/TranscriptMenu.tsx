@@ -0,0 +1,63 @@
+import React, { useRef, useState } from 'react';
+import { IconButton, Menu, MenuItem, ListItemIcon, ListItemText, Tooltip, Divider } from '@mui/material';
+import {
+  ImportExport as ImportExportIcon,
+  DataObject as DataObjectIcon,
+  Description as DescriptionIcon,
+  Replay as ReplayIcon,
+} from '@mui/icons-material';
+
+interface TranscriptMenuProps {
+  onExportJson: () => void;
+  onExportMarkdown: () => void;
+  onImport: (file: File) => void;
+}
+
+/** Header menu to export the conversation or import a transcript for replay */
+const TranscriptMenu: React.FC<TranscriptMenuProps> = ({ onExportJson, onExportMarkdown, onImport }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const choose = (action: () => void) => () => {
+    setAnchorEl(null);
+    action();
+  };
+
+  return (
+    <>
+      <Tooltip title="Export or replay a transcript">
+        <IconButton color="inherit" size="small" onClick={(e) => setAnchorEl(e.currentTarget)}>
+          <ImportExportIcon />
+        </IconButton>
+      </Tooltip>
+      <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={() => setAnchorEl(null)}>
+        <MenuItem onClick={choose(onExportJson)}>
+          <ListItemIcon><DataObjectIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Export as JSON" secondary="Can be imported and replayed" />
+        </MenuItem>
+        <MenuItem onClick={choose(onExportMarkdown)}>
+          <ListItemIcon><DescriptionIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Export as Markdown" secondary="For support tickets" />
+        </MenuItem>
+        <Divider />
+        <MenuItem onClick={choose(() => fileInputRef.current?.click())}>
+          <ListItemIcon><ReplayIcon fontSize="small" /></ListItemIcon>
+          <ListItemText primary="Import and replay…" secondary="Compare replies with a JSON transcript" />
+        </MenuItem>
+      </Menu>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        hidden
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = ''; // Allow importing the same file again
+          if (file) onImport(file);
+        }}
+      />
+    </>
+  );
+};
+
+export default TranscriptMenu;
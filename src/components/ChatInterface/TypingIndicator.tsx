@@ -0,0 +1,35 @@
+import React from 'react';
+import { Box, keyframes } from '@mui/material';
+
+const bounce = keyframes`
+  0%, 60%, 100% { transform: translateY(0); opacity: 0.4; }
+  30% { transform: translateY(-4px); opacity: 1; }
+`;
+
+interface TypingIndicatorProps {
+  size?: number;   // Dot diameter in px
+}
+
+/** Three bouncing dots shown while the assistant is replying */
+const TypingIndicator: React.FC<TypingIndicatorProps> = ({ size = 6 }) => (
+  <Box
+    role="status"
+    aria-label="Assistant is typing"
+    sx={{ display: 'inline-flex', alignItems: 'center', gap: `${size / 2}px`, height: size * 3 }}
+  >
+    {[0, 1, 2].map((dot) => (
+      <Box
+        key={dot}
+        sx={{
+          width: size,
+          height: size,
+          borderRadius: '50%',
+          bgcolor: 'text.secondary',
+          animation: `${bounce} 1.2s ease-in-out ${dot * 0.15}s infinite`,
+        }}
+      />
+    ))}
+  </Box>
+);
+
+export default TypingIndicator;
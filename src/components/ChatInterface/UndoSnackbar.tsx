@@ -0,0 +1,50 @@
+import React, { useEffect, useState } from 'react';
+import { Snackbar, Alert, Button, CircularProgress } from '@mui/material';
+import { Undo as UndoIcon } from '@mui/icons-material';
+import { PendingUndo, describeUndoAction } from './undo';
+
+interface UndoSnackbarProps {
+  pending: PendingUndo | null;
+  gracePeriodMs: number;
+  isUndoing: boolean;
+  onUndo: () => void;
+  onExpire: () => void;
+}
+
+/** Offers to revert the last chat booking change until the grace period runs out */
+const UndoSnackbar: React.FC<UndoSnackbarProps> = ({ pending, gracePeriodMs, isUndoing, onUndo, onExpire }) => {
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (!pending || isUndoing) return;
+    const expiresAt = Date.now() + gracePeriodMs;
+    const tick = () => {
+      const remaining = expiresAt - Date.now();
+      setSecondsLeft(Math.ceil(remaining / 1000));
+      if (remaining <= 0) onExpire();
+    };
+    tick();
+    const timer = setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [pending, gracePeriodMs, isUndoing, onExpire]);
+
+  return (
+    <Snackbar open={!!pending} anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}>
+      <Alert
+        severity="info"
+        variant="filled"
+        icon={isUndoing ? <CircularProgress size={18} color="inherit" /> : undefined}
+        action={
+          <Button color="inherit" size="small" startIcon={<UndoIcon />} onClick={onUndo} disabled={isUndoing}>
+            Undo{isUndoing ? '' : ` (${secondsLeft}s)`}
+          </Button>
+        }
+        sx={{ alignItems: 'center' }}
+      >
+        {pending ? describeUndoAction(pending.action) : ''}
+      </Alert>
+    </Snackbar>
+  );
+};
+
+export default UndoSnackbar;
@@ -1,23 +1,100 @@
-import React, { useState, useRef, useEffect, KeyboardEvent, useCallback } from 'react';
+import { useState, useRef, useEffect, KeyboardEvent, useCallback, useMemo } from 'react';
 import {
   Box,
-  TextField,
   IconButton,
   Paper,
   Typography,
-  LinearProgress,
   useTheme,
   Tooltip,
   Divider,
   Slide,
-  Collapse,
   styled,
   keyframes,
 } from '@mui/material';
 import SendIcon from '@mui/icons-material/Send';
-import { CommandResult, BookingApiError, processCommand, getAllBookings } from '../../services/bookingApi';
+import StopIcon from '@mui/icons-material/Stop';
+import HistoryIcon from '@mui/icons-material/History';
+import {
+  CommandResult,
+  BookingAbortedError,
+  BookingApiError,
+  ReplayReport,
+  IntentAnalysis,
+  BookingCreatePayload,
+  streamCommand,
+  getClarificationCandidates,
+  isListingIntent,
+  isMutationIntent,
+  replayPendingMutations,
+  startOfflineQueueSync,
+} from '../../services/bookingApi';
+import { describeMutation } from '../../services/offlineQueue';
+import { hasLegacyBookingList, parseLegacyBookingList } from '../../services/legacyBookingParser';
+import { applyBookingEvent, invalidateBookings, loadBooking, peekBooking } from '../../services/bookingStore';
+import { subscribeToAuth } from '../../services/auth';
+import { UNDO_GRACE_PERIOD_MS } from '../../services/config';
+import {
+  ChatMessage,
+  Conversation,
+  MessageType,
+  SystemChatMessage,
+  SystemMessageContent,
+  UserChatMessage,
+  deleteConversation,
+  listConversations,
+  loadConversation,
+  renameConversation,
+  saveConversation,
+} from '../../services/conversationHistory';
+import {
+  BookingEvent,
+  ConnectionStatus,
+  describeBookingEvent,
+  subscribeToBookingEvents,
+  subscribeToConnectionStatus,
+} from '../../services/bookingEvents';
+import { usePendingMutations } from '../../hooks/usePendingMutations';
+import { useConversations } from '../../hooks/useConversations';
+import { useEntityLexicon } from '../../hooks/useEntityLexicon';
+import {
+  Transcript,
+  TranscriptFormatError,
+  exportTranscriptJson,
+  exportTranscriptMarkdown,
+  parseTranscript,
+  transcriptFileName,
+} from '../../services/transcript';
+import { getFailedLines, isBatchInput, runBatch, splitBatchCommands } from '../../services/batchCommands';
+import { downloadFile } from '../../utils/download';
 import SystemMessage from './SystemMessage';
 import UserMessage from './UserMessage';
+import PendingMutations from './PendingMutations';
+import LiveUpdates from './LiveUpdates';
+import ConversationSidebar from './ConversationSidebar';
+import SuggestionMenu from './SuggestionMenu';
+import Composer from './Composer';
+import SlashCommandForm from './SlashCommandForm';
+import {
+  SLASH_COMMANDS,
+  SlashCommand,
+  SlashCommandName,
+  SlashCommandRequest,
+  describeSlashCommand,
+  findBookConflicts,
+  isSlashCommand,
+  parseSlashCommand,
+  runSlashCommand,
+  suggestSlashCommands,
+  toConflictResult,
+  toSlashCommandRequest,
+} from './slashCommands';
+import TechnicianDetailsDialog from '../TechnicianDetailsDialog';
+import BookingActionDialogs, { BookingActionRequest } from './BookingActionDialogs';
+import UndoSnackbar from './UndoSnackbar';
+import TypingIndicator from './TypingIndicator';
+import TranscriptMenu from './TranscriptMenu';
+import ReplayDialog from './ReplayDialog';
+import { PendingUndo, findReferencedBookings, getUndoAction, runUndo } from './undo';
 import { alpha } from '@mui/material/styles';
 
 const pulse = keyframes`
@@ -32,182 +109,687 @@ const AnimatedSendButton = styled(IconButton)(({ theme }) => ({
   },
 }));
 
-type MessageType = 'info' | 'success' | 'error' | 'warning';
-
-interface UserChatMessage {
-  id: string;
-  role: 'user';
-  content: string;
-  timestamp: Date;
-}
-
-interface SystemChatMessage {
-  id: string;
-  role: 'system';
+const createWelcomeMessage = (): SystemChatMessage => ({
+  id: crypto.randomUUID(),
+  role: 'system',
   content: {
-    intent: string;
-    message: string;
-    booking?: any;
-    bookings?: any[];
-  };
-  timestamp: Date;
-  type: MessageType;
-}
-
-type ChatMessage = UserChatMessage | SystemChatMessage;
+    intent: 'welcome',
+    message: "Welcome to the Technician Booking System! How can I assist you today?"
+  },
+  timestamp: new Date(),
+  type: 'info'
+});
 
 interface ChatInterfaceProps {
   className?: string;
   placeholder?: string;
   initialMessages?: ChatMessage[];
-  onAnalysisUpdate?: (data: any) => void;
+  onAnalysisUpdate?: (nlpAnalysis: IntentAnalysis[]) => void;
 }
 
 export default function ChatInterface({
   className,
-  placeholder = "Type your message...",
+  placeholder = "Type your message, or / for commands...",
   initialMessages = [],
   onAnalysisUpdate
 }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const theme = useTheme();
-  const inputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const commandAbortRef = useRef<AbortController | null>(null);
+  const pendingMutations = usePendingMutations();
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [bookingAction, setBookingAction] = useState<BookingActionRequest | null>(null);
+  const [technicianDetails, setTechnicianDetails] = useState<string | null>(null);
+  const lexicon = useEntityLexicon();
+  const [replayTranscript, setReplayTranscript] = useState<Transcript | null>(null);
+  const [pendingUndo, setPendingUndo] = useState<PendingUndo | null>(null);
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [newEvents, setNewEvents] = useState<BookingEvent[]>([]);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('closed');
+  const conversations = useConversations();
+  const [conversationId, setConversationId] = useState<string>(() => crypto.randomUUID());
+  const [analysis, setAnalysis] = useState<IntentAnalysis[]>([]);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const persistedMessages = useRef<ChatMessage[]>([]); // Last message list saved for the current conversation
+  const [slashForm, setSlashForm] = useState<{ command: Exclude<SlashCommandName, 'list'>; initialValue?: string } | null>(null);
+  const [menuIndex, setMenuIndex] = useState(0);
+  const [isMenuDismissed, setIsMenuDismissed] = useState(false);
+  const suggestions = isMenuDismissed ? [] : suggestSlashCommands(inputValue);
+  const sentCommands = useMemo(
+    () => messages.filter((m): m is UserChatMessage => m.role === 'user').map(m => m.content),
+    [messages]
+  );
 
   const addMessage = useCallback((message: ChatMessage) => {
     setMessages(prev => [...prev, message]);
   }, []);
 
-  const welcomeMessageShown = useRef(false);
+  const updateSystemMessage = (id: string, update: (content: SystemMessageContent) => SystemMessageContent) => {
+    setMessages(prev => prev.map(m => (m.id === id && m.role === 'system' ? { ...m, content: update(m.content) } : m)));
+  };
 
+  const cancelPendingCommand = () => {
+    commandAbortRef.current?.abort();
+    commandAbortRef.current = null;
+    setIsLoading(false);
+  };
+
+  const resumeConversation = useCallback((conversation: Conversation) => {
+    commandAbortRef.current?.abort();
+    commandAbortRef.current = null;
+    setIsLoading(false);
+    setPendingUndo(null);
+    persistedMessages.current = conversation.messages;
+    setConversationId(conversation.id);
+    setMessages(conversation.messages);
+    setAnalysis(conversation.analysis);
+    onAnalysisUpdate?.(conversation.analysis);
+  }, [onAnalysisUpdate]);
+
+  const restoreStarted = useRef(false);
+
+  // Resume the most recent conversation, or greet the user in a fresh one
   useEffect(() => {
-    if (!welcomeMessageShown.current) {
-      addMessage({
-        id: Date.now().toString(),
-        role: 'system',
-        content: {
-          intent: 'welcome',
-          message: "Welcome to the Technician Booking System! How can I assist you today?"
-        },
-        timestamp: new Date(),
-        type: 'info'
-      });
-      welcomeMessageShown.current = true;
-    }
-  }, [addMessage]);
+    if (restoreStarted.current) return;
+    restoreStarted.current = true;
+    listConversations()
+      .then(([latest]) => (latest ? loadConversation(latest.id) : null))
+      .then(conversation => {
+        if (conversation) {
+          resumeConversation(conversation);
+        } else {
+          addMessage(createWelcomeMessage());
+        }
+      })
+      .catch(error => {
+        console.error("Error restoring conversation history:", error);
+        addMessage(createWelcomeMessage());
+      })
+      .finally(() => setIsRestoring(false));
+  }, [addMessage, resumeConversation]);
+
+  // Save once the user has said something; welcome-only conversations are not kept
+  useEffect(() => {
+    if (isRestoring || streamingMessageId || messages === persistedMessages.current) return;
+    if (!messages.some(m => m.role === 'user')) return;
+    persistedMessages.current = messages;
+    saveConversation(conversationId, messages, analysis)
+      .catch(error => console.error("Error saving conversation:", error));
+  }, [conversationId, messages, analysis, isRestoring, streamingMessageId]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const parseBookingsFromMessage = (message: string): any[] => {
-    const bookings: any[] = [];
-    const lines = message.split('\n');
-    
-    lines.forEach(line => {
-      if (line.startsWith('- ID:')) {
-        const booking: any = {};
-        const parts = line.substring(2).split(',').map(part => part.trim());
-        
-        parts.forEach(part => {
-          if (part.startsWith('ID:')) booking.id = part.split(':')[1].trim();
-          if (part.startsWith('Technician:')) booking.technician_name = part.split(':')[1].trim();
-          if (part.startsWith('Profession:')) booking.profession = part.split(':')[1].trim();
-          if (part.startsWith('Start:')) {
-            const startStr = part.split(':').slice(1).join(':').trim();
-            booking.start_time = new Date(startStr).toISOString();
-          }
-        });
-        
-        if (booking.id) bookings.push(booking);
-      }
+  const reportReplay = useCallback((report: ReplayReport) => {
+    const conflicts = report.outcomes.filter(o => o.status === 'conflict');
+    const lines = report.outcomes.map(o =>
+      o.status === 'applied'
+        ? `- ${describeMutation(o.mutation)}: sent`
+        : `- ${describeMutation(o.mutation)}: conflict (${o.detail})`
+    );
+    if (report.remaining > 0) {
+      lines.push(`${report.remaining} queued ${report.remaining === 1 ? 'change is' : 'changes are'} still waiting for the server.`);
+    }
+    addMessage({
+      id: crypto.randomUUID(),
+      role: 'system',
+      content: {
+        intent: 'offline_replay',
+        message: `Synced ${report.outcomes.length} queued ${report.outcomes.length === 1 ? 'change' : 'changes'}:\n${lines.join('\n')}`,
+        bookings: report.outcomes.flatMap(o => (o.booking ? [o.booking] : [])),
+      },
+      timestamp: new Date(),
+      type: conflicts.length > 0 ? 'warning' : 'success'
+    });
+    invalidateBookings();
+  }, [addMessage]);
+
+  useEffect(() => startOfflineQueueSync(reportReplay), [reportReplay]);
+
+  // Cancel a pending command when the chat goes away
+  useEffect(() => () => commandAbortRef.current?.abort(), []);
+
+  useEffect(() => subscribeToAuth(state => {
+    if (state.status !== 'expired') return;
+    addMessage({
+      id: crypto.randomUUID(),
+      role: 'system',
+      content: {
+        intent: 'session_expired',
+        message: "Your session has expired and you have been signed out. Sign in again to continue."
+      },
+      timestamp: new Date(),
+      type: 'warning'
+    });
+  }), [addMessage]);
+
+  useEffect(() => subscribeToBookingEvents(event => {
+    setNewEvents(prev => [...prev, event]);
+  }), []);
+
+  useEffect(() => subscribeToConnectionStatus(setConnectionStatus), []);
+
+  const handleShowEvents = () => {
+    if (newEvents.length === 0) return;
+    // Latest version of each booking touched by the events
+    const changed = new Map(newEvents.flatMap(e => (e.booking ? [[e.booking.id, e.booking] as const] : [])));
+    addMessage({
+      id: crypto.randomUUID(),
+      role: 'system',
+      content: {
+        intent: 'booking_events',
+        message: `Recent booking activity:\n${newEvents.map(e => `- ${describeBookingEvent(e)}`).join('\n')}`,
+        bookings: Array.from(changed.values())
+      },
+      timestamp: new Date(),
+      type: 'info'
     });
-    
-    return bookings;
+    setNewEvents([]);
   };
 
-  const updateAnalytics = useCallback(async (result: CommandResult) => {
-    if (!onAnalysisUpdate) return;
+  const handleSync = async () => {
+    setIsSyncing(true);
     try {
-      const bookings = await getAllBookings();
-      onAnalysisUpdate({
-        bookings,
-        nlpAnalysis: result.analysis || []
-      });
+      const report = await replayPendingMutations();
+      // Null while the background sync is already replaying; it reports the outcome
+      if (!report) return;
+      if (report.outcomes.length > 0) {
+        reportReplay(report);
+      } else if (report.remaining > 0) {
+        addMessage({
+          id: crypto.randomUUID(),
+          role: 'system',
+          content: {
+            intent: 'offline_replay',
+            message: 'The server is still unreachable. Pending changes will be sent automatically.'
+          },
+          timestamp: new Date(),
+          type: 'warning'
+        });
+      }
     } catch (error) {
-      console.error("Error updating analytics:", error);
+      console.error("Error replaying queued changes:", error);
+    } finally {
+      setIsSyncing(false);
     }
-  }, [onAnalysisUpdate]);
+  };
 
-  const handleSend = async () => {
-    const trimmed = inputValue.trim();
-    if (!trimmed || isLoading) return;
+  /** Start a cancellable request; a request still waiting for a reply is superseded */
+  const beginRequest = () => {
+    commandAbortRef.current?.abort();
+    const controller = new AbortController();
+    commandAbortRef.current = controller;
+    setIsLoading(true);
+    return controller;
+  };
 
+  const finishRequest = (controller: AbortController) => {
+    if (commandAbortRef.current === controller) {
+      commandAbortRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const addUserMessage = (content: string) => {
     const newUserMessage: UserChatMessage = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       role: 'user',
-      content: trimmed,
+      content,
       timestamp: new Date()
     };
-
     addMessage(newUserMessage);
+  };
+
+  const addErrorMessage = (err: unknown) => {
+    addMessage({
+      id: crypto.randomUUID(),
+      role: 'system',
+      content: {
+        intent: 'error',
+        message: err instanceof BookingApiError ? err.message.replace('API request failed: ', '') : 'An unexpected error occurred.'
+      },
+      timestamp: new Date(),
+      type: 'error'
+    });
+  };
+
+  const handleSend = async () => {
+    const trimmed = inputValue.trim();
+    if (!trimmed || isRestoring) return;
+
     setInputValue('');
-    setIsLoading(true);
     inputRef.current?.focus();
+    if (isSlashCommand(trimmed)) {
+      handleSlashInput(trimmed);
+      return;
+    }
+
+    addUserMessage(trimmed);
+    if (isBatchInput(trimmed)) {
+      await submitBatch(splitBatchCommands(trimmed));
+      return;
+    }
+    await submitCommand(trimmed);
+  };
+
+  /** Run several commands in sequence, tracking every line in one summary message */
+  const submitBatch = async (commands: string[], isRetry = false) => {
+    const controller = beginRequest();
+    const batchId = crypto.randomUUID();
+    addMessage({
+      id: batchId,
+      role: 'system',
+      content: { intent: 'batch', message: '', batch: { lines: commands.map(command => ({ command, status: 'pending' })), isRetry } },
+      timestamp: new Date(),
+      type: 'info'
+    });
 
     try {
-      const result = await processCommand(trimmed);
-      await updateAnalytics(result);
-      
-      if (result.intent === 'list_bookings' && result.message.includes('- ID:')) {
-        const bookings = parseBookingsFromMessage(result.message);
-        addMessage({
-          id: Date.now().toString(),
-          role: 'system',
-          content: {
-            intent: 'booking_info',
-            message: "Here are your bookings:",
+      const lines = await runBatch(
+        commands,
+        lines => updateSystemMessage(batchId, content => ({ ...content, batch: { lines, isRetry } })),
+        { signal: controller.signal }
+      );
+      invalidateBookings();
+      const failed = getFailedLines(lines).length;
+      const type: MessageType = failed === 0 ? 'success' : failed === lines.length ? 'error' : 'warning';
+      setMessages(prev => prev.map(m => (m.id === batchId && m.role === 'system' ? { ...m, type } : m)));
+    } catch (err) {
+      console.error("Error running command batch:", err);
+      // Lines the batch never finished stay retryable
+      updateSystemMessage(batchId, content => ({
+        ...content,
+        batch: content.batch && {
+          ...content.batch,
+          lines: content.batch.lines.map(line =>
+            line.status === 'pending' || line.status === 'running' ? { ...line, status: 'cancelled' } : line
+          ),
+        },
+      }));
+      setMessages(prev => prev.map(m => (m.id === batchId && m.role === 'system' ? { ...m, type: 'error' } : m)));
+      addMessage({
+        id: crypto.randomUUID(),
+        role: 'system',
+        content: {
+          intent: 'batch_error',
+          message: `The batch stopped: ${err instanceof BookingApiError ? err.message.replace('API request failed: ', '') : 'An unexpected error occurred.'}`
+        },
+        timestamp: new Date(),
+        type: 'error'
+      });
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const handleRetryBatch = (message: SystemChatMessage) => {
+    const batch = message.content.batch;
+    if (!batch || batch.retried) return;
+    const failed = getFailedLines(batch.lines).map(line => line.command);
+    if (failed.length === 0) return;
+    updateSystemMessage(message.id, content => ({ ...content, batch: { ...batch, retried: true } }));
+    void submitBatch(failed, true);
+  };
+
+  /** Send a command to the NLP endpoint. `intent` skips detection after a clarification. */
+  const submitCommand = async (command: string, intent?: string) => {
+    const controller = beginRequest();
+    // Snapshot before the command runs, in case it cancels one of them
+    const referencedBookings = findReferencedBookings(command);
+    // Streamed text is shown in a placeholder message that the final reply replaces
+    const streamId = crypto.randomUUID();
+    let hasStreamed = false;
+    let streamedText = '';
+    const showReply = (reply: SystemChatMessage) => {
+      if (hasStreamed) setMessages(prev => prev.map(m => (m.id === streamId ? { ...reply, id: streamId } : m)));
+      else addMessage(reply);
+    };
+
+    try {
+      const reply = await streamCommand(command, {
+        signal: controller.signal,
+        intent,
+        onProgress: ({ message, bookings }) => {
+          if (!message && bookings.length === 0) return;
+          streamedText = message;
+          // The text streamed so far stays in `message` once booking cards start arriving
+          const content: SystemMessageContent = {
+            intent: bookings.length > 0 ? 'booking_info' : 'streaming',
+            message,
             bookings
-          },
-          timestamp: new Date(),
-          type: 'info'
-        });
-      } else {
-        addMessage({
-          id: Date.now().toString(),
+          };
+          if (!hasStreamed) {
+            hasStreamed = true;
+            setStreamingMessageId(streamId);
+            addMessage({ id: streamId, role: 'system', content, timestamp: new Date(), type: 'info' });
+          } else {
+            updateSystemMessage(streamId, () => content);
+          }
+        }
+      });
+      // Servers may send the text only as deltas; keep it when the final result has none
+      const result: CommandResult = !reply.message && streamedText ? { ...reply, message: streamedText } : reply;
+      setAnalysis(result.analysis ?? []);
+      onAnalysisUpdate?.(result.analysis ?? []);
+      if (isMutationIntent(result.intent)) {
+        invalidateBookings();
+      }
+
+      const candidates = intent ? [] : getClarificationCandidates(result);
+      if (candidates.length > 0) {
+        showReply({
+          id: crypto.randomUUID(),
           role: 'system',
           content: {
-            intent: result.intent,
-            message: result.message,
-            bookings: result.bookings
+            intent: 'clarification',
+            message: result.message
+              ? `${result.message}\nI'm not sure what you meant. Did you want to:`
+              : "I'm not sure what you meant. Did you want to:",
+            clarification: { command, candidates }
           },
           timestamp: new Date(),
-          type: determineMessageType(result.intent)
+          type: 'info'
         });
+        return;
+      }
+      
+      showReply({
+        id: crypto.randomUUID(),
+        role: 'system',
+        content: { ...buildResultContent(result), analysis: result.analysis },
+        timestamp: new Date(),
+        type: determineMessageType(result.intent)
+      });
+
+      const undoAction = UNDO_GRACE_PERIOD_MS > 0 ? getUndoAction(result, referencedBookings) : null;
+      if (undoAction) {
+        setPendingUndo({ id: crypto.randomUUID(), action: undoAction });
       }
     } catch (err) {
+      // A partial reply is not an answer; drop it
+      if (hasStreamed) setMessages(prev => prev.filter(m => m.id !== streamId));
+      if (err instanceof BookingAbortedError) return;
       console.error("Error processing command:", err);
+      addErrorMessage(err);
+    } finally {
+      if (hasStreamed) setStreamingMessageId(id => (id === streamId ? null : id));
+      finishRequest(controller);
+    }
+  };
+
+  const handleClarify = (message: SystemChatMessage, candidate: IntentAnalysis) => {
+    const clarification = message.content.clarification;
+    if (!clarification || clarification.chosenIntent) return;
+    // Record the choice on the clarification message so it is kept with the conversation
+    updateSystemMessage(message.id, content => ({
+      ...content,
+      clarification: { ...clarification, chosenIntent: candidate.intent }
+    }));
+    addUserMessage(`${clarification.command} (${candidate.intent.replace(/_/g, ' ')})`);
+    void submitCommand(clarification.command, candidate.intent);
+  };
+
+  const handleSlashInput = (input: string) => {
+    const parsed = parseSlashCommand(input);
+    if (!parsed) {
+      addUserMessage(input);
+      addMessage({
+        id: crypto.randomUUID(),
+        role: 'system',
+        content: {
+          intent: 'unknown_command',
+          message: `Unknown command "${input.split(/\s/)[0]}". Available commands: ${SLASH_COMMANDS.map(c => c.usage).join(', ')}.`
+        },
+        timestamp: new Date(),
+        type: 'warning'
+      });
+      return;
+    }
+
+    const request = toSlashCommandRequest(parsed.name, parsed.argument);
+    if (request) {
+      void handleSlashCommand(request);
+    } else if (parsed.name !== 'list') {
+      setSlashForm({ command: parsed.name, initialValue: parsed.argument });
+    }
+  };
+
+  /** Run a slash command; /book is checked for double-booking first unless `force` is set */
+  const handleSlashCommand = async (request: SlashCommandRequest, force = false) => {
+    setSlashForm(null);
+    addUserMessage(describeSlashCommand(request));
+    const controller = beginRequest();
+
+    try {
+      if (request.name === 'book' && !force) {
+        const report = await findBookConflicts(request.payload);
+        if (controller.signal.aborted) return;
+        if (report) {
+          const { content, type } = toConflictResult(request.payload, report);
+          addMessage({ id: crypto.randomUUID(), role: 'system', content, timestamp: new Date(), type });
+          return;
+        }
+      }
+      const { content, type } = await runSlashCommand(request, { signal: controller.signal });
+      // Reflect the change in cached lists and cards right away
+      if (request.name === 'book' && content.booking) {
+        applyBookingEvent({ type: 'booking.created', booking_id: content.booking.id, booking: content.booking });
+      } else if (request.name === 'cancel' && content.booking) {
+        applyBookingEvent({ type: 'booking.updated', booking_id: content.booking.id, booking: content.booking });
+      }
+      addMessage({ id: crypto.randomUUID(), role: 'system', content, timestamp: new Date(), type });
+    } catch (err) {
+      if (err instanceof BookingAbortedError) return;
+      console.error("Error running slash command:", err);
+      addErrorMessage(err);
+    } finally {
+      finishRequest(controller);
+      inputRef.current?.focus();
+    }
+  };
+
+  const handleResolveConflict = (message: SystemChatMessage, payload: BookingCreatePayload, force: boolean) => {
+    updateSystemMessage(message.id, content => (
+      content.conflict ? { ...content, conflict: { ...content.conflict, resolved: true } } : content
+    ));
+    void handleSlashCommand({ name: 'book', payload }, force);
+  };
+
+  const selectSuggestion = (command: SlashCommand) => {
+    if (command.name === 'book') {
+      setInputValue('');
+      setSlashForm({ command: 'book' });
+    } else {
+      setInputValue(`/${command.name} `);
+    }
+    inputRef.current?.focus();
+  };
+
+  const handleStop = () => {
+    cancelPendingCommand();
+    // The server may have acted on the command before it was cancelled
+    invalidateBookings();
+    addMessage({
+      id: crypto.randomUUID(),
+      role: 'system',
+      content: {
+        intent: 'command_cancelled',
+        message: 'Stopped waiting for a reply. If the command changed a booking, the change may still have been applied.'
+      },
+      timestamp: new Date(),
+      type: 'warning'
+    });
+    inputRef.current?.focus();
+  };
+
+  const handleUndo = async () => {
+    if (!pendingUndo || isUndoing) return;
+    setIsUndoing(true);
+    try {
+      const { content, type } = await runUndo(pendingUndo.action);
+      addMessage({ id: crypto.randomUUID(), role: 'system', content, timestamp: new Date(), type });
+    } catch (err) {
+      console.error("Error undoing command:", err);
       addMessage({
-        id: Date.now().toString(),
+        id: crypto.randomUUID(),
         role: 'system',
         content: {
-          intent: 'error',
-          message: err instanceof BookingApiError ? err.message.replace('API request failed: ', '') : 'An unexpected error occurred.'
+          intent: 'undo_error',
+          message: `Could not undo: ${err instanceof BookingApiError ? err.message.replace('API request failed: ', '') : 'An unexpected error occurred.'}`
         },
         timestamp: new Date(),
         type: 'error'
       });
     } finally {
-      setIsLoading(false);
+      setIsUndoing(false);
+      setPendingUndo(null);
+    }
+  };
+
+  const handleUndoExpired = useCallback(() => setPendingUndo(null), []);
+
+  const handleNewConversation = () => {
+    cancelPendingCommand();
+    setPendingUndo(null);
+    const welcome = [createWelcomeMessage()];
+    persistedMessages.current = welcome;
+    setConversationId(crypto.randomUUID());
+    setMessages(welcome);
+    setAnalysis([]);
+    onAnalysisUpdate?.([]);
+    inputRef.current?.focus();
+  };
+
+  const handleSelectConversation = async (id: string) => {
+    if (id === conversationId) return;
+    try {
+      const conversation = await loadConversation(id);
+      if (conversation) resumeConversation(conversation);
+    } catch (error) {
+      console.error("Error loading conversation:", error);
+    }
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (!window.confirm(`Delete "${conversation?.title ?? 'this conversation'}"? This cannot be undone.`)) return;
+    try {
+      await deleteConversation(id);
+      if (id === conversationId) handleNewConversation();
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+    }
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    renameConversation(id, title).catch(error => console.error("Error renaming conversation:", error));
+  };
+
+  // Click handler: failures are reported in the chat, never rethrown
+  const handleOpenBooking = async (bookingId: string) => {
+    let content: SystemMessageContent = { intent: 'booking_not_found', message: `Booking #${bookingId} could not be found.` };
+    let type: MessageType = 'warning';
+    try {
+      const booking = peekBooking(bookingId) ?? await loadBooking(bookingId);
+      if (booking) {
+        setBookingAction({ action: 'details', booking });
+        return;
+      }
+    } catch (err) {
+      if (!(err instanceof BookingApiError && err.status === 404)) {
+        console.error(`Failed to load booking ${bookingId}:`, err);
+        const reason = err instanceof Error ? err.message.replace('API request failed: ', '') : 'An unexpected error occurred.';
+        content = { intent: 'booking_load_error', message: `Booking #${bookingId} could not be loaded: ${reason}` };
+        type = 'error';
+      }
+    }
+    addMessage({ id: crypto.randomUUID(), role: 'system', content, timestamp: new Date(), type });
+  };
+
+  const currentTranscript = (): Transcript => ({
+    title: conversations.find(c => c.id === conversationId)?.title ?? 'Conversation',
+    exportedAt: new Date(),
+    messages,
+    analysis,
+  });
+
+  const handleExport = (kind: 'json' | 'md') => {
+    const transcript = currentTranscript();
+    const content = kind === 'json' ? exportTranscriptJson(transcript) : exportTranscriptMarkdown(transcript);
+    downloadFile(transcriptFileName(transcript.title, kind), content, kind === 'json' ? 'application/json' : 'text/markdown');
+  };
+
+  // File input handler: failures are reported in the chat, never rethrown
+  const handleImportTranscript = async (file: File) => {
+    try {
+      setReplayTranscript(parseTranscript(await file.text()));
+    } catch (err) {
+      if (!(err instanceof TranscriptFormatError)) console.error(`Failed to import ${file.name}:`, err);
+      const reason = err instanceof TranscriptFormatError ? err.message : 'The file could not be read.';
+      addMessage({
+        id: crypto.randomUUID(),
+        role: 'system',
+        content: { intent: 'transcript_import_error', message: `Could not import "${file.name}": ${reason}` },
+        timestamp: new Date(),
+        type: 'error'
+      });
+    }
+  };
+
+  const handleBookingActionOutcome = (content: SystemMessageContent, type: MessageType) => {
+    addMessage({ id: crypto.randomUUID(), role: 'system', content, timestamp: new Date(), type });
+  };
+
+  const buildResultContent = (result: CommandResult): SystemMessageContent => {
+    if (isListingIntent(result.intent)) {
+      if (Array.isArray(result.bookings)) {
+        return result.bookings.length > 0
+          ? { intent: 'booking_info', message: result.message ?? 'Here are your bookings:', bookings: result.bookings }
+          : { intent: result.intent, message: result.message || 'No bookings found.' };
+      }
+      // Legacy servers only describe bookings as text
+      if (hasLegacyBookingList(result.message)) {
+        return {
+          intent: 'booking_info',
+          message: 'Here are your bookings:',
+          bookings: parseLegacyBookingList(result.message ?? ''),
+          legacyParsed: true
+        };
+      }
     }
+    return {
+      intent: result.intent,
+      message: result.message ?? '',
+      booking: result.booking,
+      bookings: result.bookings
+    };
   };
 
-  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      void handleSend();
+  /** Slash menu navigation; other keys are left to the composer */
+  const handleKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setMenuIndex(i => (i + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+        e.preventDefault();
+        selectSuggestion(suggestions[Math.min(menuIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setIsMenuDismissed(true);
+      }
     }
   };
 
@@ -232,45 +814,156 @@ export default function ChatInterface({
         borderBottom: 1, 
         borderColor: 'divider', 
         bgcolor: theme.palette?.primary?.main ? alpha(theme.palette.primary.main, 0.9) : 'transparent', 
-        color: 'white' 
+        color: 'white',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between'
       }}>
-        <Typography variant="h6">Technician Booking Assistant</Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Tooltip title={isHistoryOpen ? 'Hide conversations' : 'Show conversations'}>
+            <IconButton color="inherit" size="small" onClick={() => setIsHistoryOpen(open => !open)}>
+              <HistoryIcon />
+            </IconButton>
+          </Tooltip>
+          <Typography variant="h6">Technician Booking Assistant</Typography>
+        </Box>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <TranscriptMenu
+            onExportJson={() => handleExport('json')}
+            onExportMarkdown={() => handleExport('md')}
+            onImport={handleImportTranscript}
+          />
+          <LiveUpdates status={connectionStatus} newEventCount={newEvents.length} onShowEvents={handleShowEvents} />
+        </Box>
       </Box>
 
-      <Box sx={{ flexGrow: 1, overflowY: 'auto', p: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
-        {messages.map(message => (
-          <Slide key={message.id} in direction={message.role === 'user' ? 'left' : 'right'}>
-            {message.role === 'user' 
-              ? <UserMessage content={message.content} timestamp={message.timestamp} /> 
-              : <SystemMessage content={message.content} timestamp={message.timestamp} type={message.type} />}
-          </Slide>
-        ))}
-        <div ref={messagesEndRef} />
-      </Box>
+      <Box sx={{ flexGrow: 1, display: 'flex', minHeight: 0 }}>
+        {isHistoryOpen && (
+          <ConversationSidebar
+            conversations={conversations}
+            activeId={conversationId}
+            onSelect={handleSelectConversation}
+            onNew={handleNewConversation}
+            onRename={handleRenameConversation}
+            onDelete={handleDeleteConversation}
+          />
+        )}
+
+        <Box sx={{ flexGrow: 1, display: 'flex', flexDirection: 'column', minWidth: 0 }}>
+          <Box sx={{ flexGrow: 1, overflowY: 'auto', p: 2, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {messages.map(message => (
+              <Slide key={message.id} in direction={message.role === 'user' ? 'left' : 'right'}>
+                {message.role === 'user' 
+                  ? <UserMessage content={message.content} timestamp={message.timestamp} /> 
+                  : <SystemMessage
+                      content={message.content}
+                      timestamp={message.timestamp}
+                      type={message.type}
+                      onAction={(action, booking) => setBookingAction({ action, booking })}
+                      onClarify={message.content.clarification ? candidate => handleClarify(message, candidate) : undefined}
+                      lexicon={lexicon}
+                      onOpenBooking={handleOpenBooking}
+                      onOpenTechnician={setTechnicianDetails}
+                      isStreaming={message.id === streamingMessageId}
+                      onRetryBatch={message.content.batch && !isLoading ? () => handleRetryBatch(message) : undefined}
+                      onResolveConflict={message.content.conflict && !isLoading
+                        ? (payload, force) => handleResolveConflict(message, payload, force)
+                        : undefined}
+                    />}
+              </Slide>
+            ))}
+            {isLoading && !streamingMessageId && (
+              <Box sx={{ px: 1.5, py: 1, alignSelf: 'flex-start', borderRadius: 2, bgcolor: 'action.hover' }}>
+                <TypingIndicator />
+              </Box>
+            )}
+            <div ref={messagesEndRef} />
+          </Box>
+
+          <PendingMutations mutations={pendingMutations} isSyncing={isSyncing} onSync={handleSync} />
+
+          <UndoSnackbar
+            pending={pendingUndo}
+            gracePeriodMs={UNDO_GRACE_PERIOD_MS}
+            isUndoing={isUndoing}
+            onUndo={handleUndo}
+            onExpire={handleUndoExpired}
+          />
+
+          <TechnicianDetailsDialog
+            technicianName={technicianDetails}
+            onClose={() => setTechnicianDetails(null)}
+            onOpenBooking={booking => {
+              setTechnicianDetails(null);
+              setBookingAction({ action: 'details', booking });
+            }}
+          />
+
+          <ReplayDialog transcript={replayTranscript} onClose={() => setReplayTranscript(null)} />
+
+          <BookingActionDialogs
+            request={bookingAction}
+            onClose={() => setBookingAction(null)}
+            onOutcome={handleBookingActionOutcome}
+          />
+
+          {slashForm && (
+            <SlashCommandForm
+              key={slashForm.command}
+              command={slashForm.command}
+              initialValue={slashForm.initialValue}
+              onSubmit={handleSlashCommand}
+              onCancel={() => {
+                setSlashForm(null);
+                inputRef.current?.focus();
+              }}
+            />
+          )}
 
-      <Collapse in={isLoading}><LinearProgress /></Collapse>
-
-      <Divider />
-      <Box sx={{ p: 2, display: 'flex', alignItems: 'center', gap: 1 }}>
-        <TextField 
-          fullWidth 
-          placeholder={placeholder} 
-          value={inputValue} 
-          onChange={(e) => setInputValue(e.target.value)} 
-          onKeyDown={handleKeyDown} 
-          inputRef={inputRef} 
-        />
-        <Tooltip title="Send">
-          <span>
-            <AnimatedSendButton 
-              color="primary" 
-              onClick={handleSend} 
-              disabled={isLoading || !inputValue.trim()}
-            >
-              <SendIcon />
-            </AnimatedSendButton>
-          </span>
-        </Tooltip>
+          <Divider />
+          <Box sx={{ p: 2, display: 'flex', alignItems: 'center', gap: 1, position: 'relative' }}>
+            <SuggestionMenu
+              items={suggestions.map(c => ({ id: c.name, primary: c.usage, secondary: c.description }))}
+              activeIndex={menuIndex}
+              label="Slash commands"
+              monospace
+              onSelect={index => selectSuggestion(suggestions[index])}
+            />
+            <Composer
+              value={inputValue}
+              onChange={value => {
+                setInputValue(value);
+                setMenuIndex(0);
+                setIsMenuDismissed(false);
+              }}
+              onSubmit={() => void handleSend()}
+              onKeyDown={handleKeyDown}
+              history={sentCommands}
+              inputRef={inputRef}
+              placeholder={placeholder}
+              disableSuggestions={suggestions.length > 0}
+            />
+            {isLoading ? (
+              <Tooltip title="Stop">
+                <IconButton color="error" onClick={handleStop}>
+                  <StopIcon />
+                </IconButton>
+              </Tooltip>
+            ) : (
+              <Tooltip title="Send">
+                <span>
+                  <AnimatedSendButton 
+                    color="primary" 
+                    onClick={handleSend} 
+                    disabled={!inputValue.trim()}
+                  >
+                    <SendIcon />
+                  </AnimatedSendButton>
+                </span>
+              </Tooltip>
+            )}
+          </Box>
+        </Box>
       </Box>
     </Paper>
   );
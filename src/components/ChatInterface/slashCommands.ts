@@ -0,0 +1,210 @@
+/**
+ * slashCommands.ts
+ *
+ * Structured chat commands that call the booking API directly instead of
+ * going through NLP (`processCommand`).
+ *
+ *   /book              Book a technician (opens a form)
+ *   /cancel <id>       Cancel a booking
+ *   /list [technician] List current and upcoming bookings
+ *   /find <id>         Show one booking
+ */
+
+import { addMinutes, format, isValid, parseISO } from 'date-fns';
+import {
+  Booking,
+  BookingCreatePayload,
+  BookingQueuedError,
+  RequestOptions,
+  createBooking,
+  getAllBookings,
+  getBookingById,
+  updateBookingStatus,
+} from '../../services/bookingApi';
+import { MessageType, SystemMessageContent } from '../../services/conversationHistory';
+import { loadBookingRange } from '../../services/bookingStore';
+import { ConflictReport, DEFAULT_BOOKING_MINUTES, checkBookingConflicts, getConflictSearchRange } from '../../utils/bookingConflicts';
+
+// -----------------------------------------------------------------------------
+// 1) Command Definitions
+// -----------------------------------------------------------------------------
+export type SlashCommandName = 'book' | 'cancel' | 'list' | 'find';
+
+export interface SlashCommand {
+  name: SlashCommandName;
+  usage: string;
+  description: string;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { name: 'book', usage: '/book', description: 'Book a technician' },
+  { name: 'cancel', usage: '/cancel <id>', description: 'Cancel a booking' },
+  { name: 'list', usage: '/list [technician]', description: 'List current and upcoming bookings' },
+  { name: 'find', usage: '/find <id>', description: 'Show a booking by ID' },
+];
+
+/** A fully specified command, ready to run */
+export type SlashCommandRequest =
+  | { name: 'book'; payload: BookingCreatePayload }
+  | { name: 'cancel'; bookingId: string }
+  | { name: 'find'; bookingId: string }
+  | { name: 'list'; technician?: string };
+
+/** Outcome of a command, shaped like any other system message */
+export interface SlashCommandResult {
+  content: SystemMessageContent;
+  type: MessageType;
+}
+
+const LIST_PAGE_SIZE = 20;
+
+// -----------------------------------------------------------------------------
+// 2) Parsing
+// -----------------------------------------------------------------------------
+
+/** True when the input should be treated as a slash command */
+export function isSlashCommand(input: string): boolean {
+  return input.trimStart().startsWith('/');
+}
+
+/** Commands matching the partially typed name; empty once an argument is being typed */
+export function suggestSlashCommands(input: string): SlashCommand[] {
+  const match = /^\/(\w*)$/.exec(input.trimStart());
+  if (!match) return [];
+  const prefix = match[1].toLowerCase();
+  return SLASH_COMMANDS.filter((command) => command.name.startsWith(prefix));
+}
+
+/**
+ * Split "/name argument" into its parts.
+ * Returns null for unknown commands.
+ */
+export function parseSlashCommand(input: string): { name: SlashCommandName; argument: string } | null {
+  const match = /^\/(\w+)\s*(.*)$/s.exec(input.trim());
+  const command = match && SLASH_COMMANDS.find((c) => c.name === match[1].toLowerCase());
+  return command ? { name: command.name, argument: match[2].trim() } : null;
+}
+
+/** Build a runnable request from typed input; null when a form is needed to fill in parameters */
+export function toSlashCommandRequest(name: SlashCommandName, argument: string): SlashCommandRequest | null {
+  const bookingId = argument.replace(/^#/, '');
+  switch (name) {
+    case 'cancel':
+    case 'find':
+      return /^\w[\w-]*$/.test(bookingId) ? { name, bookingId } : null;
+    case 'list':
+      return { name, technician: argument || undefined };
+    default:
+      return null;
+  }
+}
+
+/** Command line shown as the user's message for a request */
+export function describeSlashCommand(request: SlashCommandRequest): string {
+  switch (request.name) {
+    case 'book': {
+      const { technician_name, profession, customer_name, start_time } = request.payload;
+      return `/book ${technician_name} (${profession}) for ${customer_name} at ${new Date(start_time).toLocaleString()}`;
+    }
+    case 'list':
+      return request.technician ? `/list ${request.technician}` : '/list';
+    default:
+      return `/${request.name} ${request.bookingId}`;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// 3) Conflict Checks
+// -----------------------------------------------------------------------------
+
+/**
+ * Check a /book request against known bookings before it is sent.
+ * Returns null when the slot looks free or bookings cannot be loaded; the server has the final say.
+ */
+export async function findBookConflicts(payload: BookingCreatePayload): Promise<ConflictReport | null> {
+  const start = parseISO(payload.start_time);
+  const end = addMinutes(start, DEFAULT_BOOKING_MINUTES);
+  if (!isValid(start)) return null;
+  let bookings: Booking[];
+  try {
+    bookings = await loadBookingRange(getConflictSearchRange(start, end));
+  } catch {
+    return null;
+  }
+  return checkBookingConflicts(bookings, {
+    technician_name: payload.technician_name,
+    profession: payload.profession,
+    start,
+    end,
+  });
+}
+
+/** Warning shown instead of booking, with the conflict kept so it can be resolved from the chat */
+export function toConflictResult(payload: BookingCreatePayload, report: ConflictReport): SlashCommandResult {
+  const count = report.conflicts.length;
+  return {
+    content: {
+      intent: 'booking_conflict',
+      message: `Not booked yet: ${payload.technician_name} already has ${count} booking${count === 1 ? '' : 's'} ` +
+        `overlapping ${format(parseISO(payload.start_time), 'MMM dd HH:mm')}. ` +
+        'Pick a free slot or another technician, or book anyway.',
+      conflict: { payload, report },
+    },
+    type: 'warning',
+  };
+}
+
+// -----------------------------------------------------------------------------
+// 4) Execution
+// -----------------------------------------------------------------------------
+
+/** Run a command against the API. Errors other than offline queueing are thrown. */
+export async function runSlashCommand(
+  request: SlashCommandRequest,
+  options: RequestOptions = {}
+): Promise<SlashCommandResult> {
+  try {
+    switch (request.name) {
+      case 'book': {
+        const booking = await createBooking(request.payload, options);
+        return {
+          content: { intent: 'create_booking_success', message: `Booking #${booking.id} created.`, booking },
+          type: 'success',
+        };
+      }
+      case 'cancel': {
+        // Fresh copy, so the transition check sees the current status
+        const current = await getBookingById(request.bookingId, options);
+        const booking = await updateBookingStatus(current, 'cancelled', options);
+        return {
+          content: { intent: 'cancel_booking_success', message: `Booking #${booking.id} cancelled.`, booking },
+          type: 'success',
+        };
+      }
+      case 'find': {
+        const booking = await getBookingById(request.bookingId, options);
+        return { content: { intent: 'booking_info', message: `Booking #${booking.id}:`, bookings: [booking] }, type: 'info' };
+      }
+      case 'list': {
+        const page = await getAllBookings({
+          page: 1,
+          page_size: LIST_PAGE_SIZE,
+          sort_by: 'start_time',
+          sort_order: 'asc',
+          technician_name: request.technician,
+          ends_after: new Date().toISOString(),   // Past bookings are left out
+        }, options);
+        const scope = request.technician ? ` for "${request.technician}"` : '';
+        const message = page.items.length === 0
+          ? `No current or upcoming bookings found${scope}.`
+          : `Showing ${page.items.length} of ${page.total} current and upcoming bookings${scope}:`;
+        return { content: { intent: 'booking_info', message, bookings: page.items }, type: 'info' };
+      }
+    }
+  } catch (error) {
+    if (error instanceof BookingQueuedError) {
+      return { content: { intent: `${request.name}_booking_pending`, message: error.message }, type: 'warning' };
+    }
+    throw error;
+  }
+}
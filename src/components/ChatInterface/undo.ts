@@ -0,0 +1,101 @@
+/**
+ * undo.ts
+ *
+ * Undo for bookings created or cancelled by chat commands.
+ *
+ * A cancelled booking is reopened on the server with the status it had before,
+ * keeping its ID; a created booking is undone by cancelling it.
+ */
+
+import {
+  Booking,
+  BookingQueuedError,
+  CommandResult,
+  RequestOptions,
+  reopenBooking,
+  updateBookingStatus,
+} from '../../services/bookingApi';
+import { BookingStatus, DEFAULT_BOOKING_STATUS, isActiveStatus } from '../../services/bookingStatus';
+import { applyBookingEvent, peekBooking } from '../../services/bookingStore';
+import { MessageType, SystemMessageContent } from '../../services/conversationHistory';
+
+export type UndoAction =
+  | { kind: 'restore'; booking: Booking; status: BookingStatus }   // Reopen a cancelled booking as `status`
+  | { kind: 'remove'; booking: Booking };                            // Cancel a booking that was just created
+
+/** An undo offered to the user until the grace period runs out */
+export interface PendingUndo {
+  id: string;
+  action: UndoAction;
+}
+
+export interface UndoResult {
+  content: SystemMessageContent;
+  type: MessageType;
+}
+
+const CREATING_INTENT = /^(create|book)_/;
+const DESTRUCTIVE_INTENT = /^(cancel|delete|remove)_/;
+
+/**
+ * Cached bookings whose IDs appear in a command. Taken before the command is
+ * sent, so a cancelled booking can be reopened with its earlier status.
+ */
+export function findReferencedBookings(command: string): Booking[] {
+  const ids = new Set(Array.from(command.matchAll(/#?\b(\w+)\b/g), (match) => match[1]));
+  return Array.from(ids)
+    .map(peekBooking)
+    .filter((b): b is Booking => b !== undefined);
+}
+
+/** The undo for a command result, or null when it did not create or cancel a booking */
+export function getUndoAction(result: CommandResult, referenced: Booking[] = []): UndoAction | null {
+  if (!result.success || result.intent.includes('pending')) return null;
+  if (CREATING_INTENT.test(result.intent)) {
+    return result.booking ? { kind: 'remove', booking: result.booking } : null;
+  }
+  if (DESTRUCTIVE_INTENT.test(result.intent)) {
+    const booking = result.booking ?? (referenced.length === 1 ? referenced[0] : undefined);
+    if (!booking) return null;
+    const before = referenced.find((b) => b.id === booking.id);
+    const status = before && isActiveStatus(before.status) ? before.status : DEFAULT_BOOKING_STATUS;
+    return { kind: 'restore', booking, status };
+  }
+  return null;
+}
+
+/** What the undo would revert, e.g. "Booking #12 cancelled." */
+export function describeUndoAction(action: UndoAction): string {
+  return `Booking #${action.booking.id} ${action.kind === 'restore' ? 'cancelled' : 'created'}.`;
+}
+
+/** Revert the change. Errors other than offline queueing are thrown. */
+export async function runUndo(action: UndoAction, options: RequestOptions = {}): Promise<UndoResult> {
+  const { booking } = action;
+  try {
+    if (action.kind === 'remove') {
+      const cancelled = await updateBookingStatus(booking, 'cancelled', options);
+      applyBookingEvent({ type: 'booking.updated', booking_id: cancelled.id, booking: cancelled });
+      return {
+        content: { intent: 'undo_success', message: `Undone: booking #${booking.id} was cancelled.`, booking: cancelled },
+        type: 'success',
+      };
+    }
+
+    const reopened = await reopenBooking(booking.id, action.status, options);
+    applyBookingEvent({ type: 'booking.updated', booking_id: reopened.id, booking: reopened });
+    return {
+      content: {
+        intent: 'undo_success',
+        message: `Undone: booking #${booking.id} was reopened.`,
+        booking: reopened,
+      },
+      type: 'success',
+    };
+  } catch (error) {
+    if (error instanceof BookingQueuedError) {
+      return { content: { intent: 'undo_pending', message: error.message }, type: 'warning' };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,57 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  CircularProgress,
+} from '@mui/material';
+
+interface ConfirmDialogProps {
+  open: boolean;
+  title: string;
+  message: React.ReactNode;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  destructive?: boolean;
+  isBusy?: boolean;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+/** Yes/no confirmation, used before destructive actions */
+const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
+  open,
+  title,
+  message,
+  confirmLabel = 'Confirm',
+  cancelLabel = 'Keep',
+  destructive = false,
+  isBusy = false,
+  onConfirm,
+  onClose,
+}) => (
+  <Dialog open={open} onClose={isBusy ? undefined : onClose} maxWidth="xs" fullWidth>
+    <DialogTitle>{title}</DialogTitle>
+    <DialogContent>
+      <DialogContentText component="div">{message}</DialogContentText>
+    </DialogContent>
+    <DialogActions>
+      <Button onClick={onClose} disabled={isBusy}>{cancelLabel}</Button>
+      <Button
+        variant="contained"
+        color={destructive ? 'error' : 'primary'}
+        onClick={onConfirm}
+        disabled={isBusy}
+        startIcon={isBusy ? <CircularProgress size={16} color="inherit" /> : undefined}
+        autoFocus
+      >
+        {confirmLabel}
+      </Button>
+    </DialogActions>
+  </Dialog>
+);
+
+export default ConfirmDialog;
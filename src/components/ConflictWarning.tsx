@@ -0,0 +1,90 @@
+import React from 'react';
+import { Alert, AlertTitle, Box, Button, Chip, Link, Stack, Typography } from '@mui/material';
+import { format, isSameDay, parseISO } from 'date-fns';
+import { ConflictReport } from '../utils/bookingConflicts';
+
+interface ConflictWarningProps {
+  report: ConflictReport;
+  technician: string;
+  disabled?: boolean;
+  onOpenBooking?: (bookingId: string) => void;
+  onPickSlot?: (start: string) => void;      // ISO start of a suggested free slot
+  onPickTechnician?: (name: string) => void;
+  onProceed?: () => void;                    // Book anyway
+}
+
+const describeTime = (iso: string) => format(parseISO(iso), 'EEE MMM d, HH:mm');
+
+/** Double-booking warning with the next free slots and free colleagues as one-click fixes */
+const ConflictWarning: React.FC<ConflictWarningProps> = ({
+  report,
+  technician,
+  disabled = false,
+  onOpenBooking,
+  onPickSlot,
+  onPickTechnician,
+  onProceed,
+}) => (
+  <Alert severity="warning">
+    <AlertTitle>{technician} is already booked at this time</AlertTitle>
+    <Box component="ul" sx={{ m: 0, pl: 2.5 }}>
+      {report.conflicts.map(booking => {
+        const start = parseISO(booking.start_time);
+        const end = parseISO(booking.end_time);
+        return (
+          <li key={booking.id}>
+            <Typography variant="body2">
+              {onOpenBooking ? (
+                <Link component="button" variant="body2" onClick={() => onOpenBooking(booking.id)} sx={{ verticalAlign: 'baseline' }}>
+                  #{booking.id}
+                </Link>
+              ) : `#${booking.id}`}{' '}
+              {booking.customer_name}, {format(start, 'MMM d HH:mm')}–{format(end, isSameDay(start, end) ? 'HH:mm' : 'MMM d HH:mm')}
+            </Typography>
+          </li>
+        );
+      })}
+    </Box>
+    {report.freeSlots.length > 0 && (
+      <Box sx={{ mt: 1 }}>
+        <Typography variant="caption" component="div">Next free slots for {technician}:</Typography>
+        <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap" sx={{ mt: 0.5 }}>
+          {report.freeSlots.map(slot => (
+            <Chip
+              key={slot}
+              size="small"
+              variant="outlined"
+              label={describeTime(slot)}
+              onClick={onPickSlot ? () => onPickSlot(slot) : undefined}
+              disabled={disabled}
+            />
+          ))}
+        </Stack>
+      </Box>
+    )}
+    {report.alternatives.length > 0 && (
+      <Box sx={{ mt: 1 }}>
+        <Typography variant="caption" component="div">Free at the requested time:</Typography>
+        <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap" sx={{ mt: 0.5 }}>
+          {report.alternatives.map(name => (
+            <Chip
+              key={name}
+              size="small"
+              variant="outlined"
+              label={name}
+              onClick={onPickTechnician ? () => onPickTechnician(name) : undefined}
+              disabled={disabled}
+            />
+          ))}
+        </Stack>
+      </Box>
+    )}
+    {onProceed && (
+      <Button size="small" color="warning" onClick={onProceed} disabled={disabled} sx={{ mt: 1 }}>
+        Book anyway
+      </Button>
+    )}
+  </Alert>
+);
+
+export default ConflictWarning;
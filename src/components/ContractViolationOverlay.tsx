@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  IconButton,
+  Tooltip,
+  Collapse,
+  Badge,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import {
+  BugReport as BugReportIcon,
+  DeleteSweep as ClearIcon,
+  ExpandMore as ExpandMoreIcon,
+  ExpandLess as ExpandLessIcon,
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import {
+  ContractViolation,
+  clearContractViolations,
+  getContractViolations,
+  subscribeToContractViolations,
+} from '../services/contractViolations';
+
+/** Dev-only panel listing API responses that did not match their schemas */
+const ContractViolationOverlay: React.FC = () => {
+  const theme = useTheme();
+  const [violations, setViolations] = useState<ContractViolation[]>(getContractViolations());
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  useEffect(() => subscribeToContractViolations(setViolations), []);
+
+  if (violations.length === 0) return null;
+
+  return (
+    <Paper
+      elevation={6}
+      sx={{
+        position: 'fixed',
+        left: 16,
+        bottom: 16,
+        width: 420,
+        maxWidth: 'calc(100vw - 32px)',
+        zIndex: theme.zIndex.snackbar,
+        border: `1px solid ${theme.palette.error.main}`,
+        overflow: 'hidden',
+      }}
+    >
+      <Box
+        sx={{
+          px: 1.5,
+          py: 1,
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          bgcolor: alpha(theme.palette.error.main, 0.12),
+        }}
+      >
+        <Badge badgeContent={violations.length} color="error">
+          <BugReportIcon color="error" fontSize="small" />
+        </Badge>
+        <Typography variant="subtitle2" sx={{ flex: 1, ml: 1 }}>
+          API contract violations
+        </Typography>
+        <Tooltip title="Clear">
+          <IconButton size="small" onClick={clearContractViolations}>
+            <ClearIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <IconButton size="small" onClick={() => setIsExpanded(!isExpanded)}>
+          {isExpanded ? <ExpandMoreIcon fontSize="small" /> : <ExpandLessIcon fontSize="small" />}
+        </IconButton>
+      </Box>
+
+      <Collapse in={isExpanded}>
+        <Box sx={{ maxHeight: 280, overflowY: 'auto' }}>
+          {violations.map((violation) => (
+            <Box key={violation.id} sx={{ px: 1.5, py: 1, borderTop: 1, borderColor: 'divider' }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+                <Typography variant="caption" sx={{ fontFamily: 'monospace', fontWeight: 600 }}>
+                  {violation.endpoint}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {format(violation.occurredAt, 'HH:mm:ss')}
+                </Typography>
+              </Box>
+              <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                {violation.field}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                expected {violation.expected}, received {violation.received}
+              </Typography>
+            </Box>
+          ))}
+        </Box>
+      </Collapse>
+    </Paper>
+  );
+};
+
+export default ContractViolationOverlay;
@@ -0,0 +1,88 @@
+import React, { FormEvent, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  TextField,
+  Typography,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { Lock as LockIcon } from '@mui/icons-material';
+import { AuthError, login } from '../services/auth';
+
+interface LoginFormProps {
+  title?: string;
+  notice?: string;
+  defaultUsername?: string;
+}
+
+const LoginForm: React.FC<LoginFormProps> = ({
+  title = 'Sign in',
+  notice,
+  defaultUsername = '',
+}) => {
+  const [username, setUsername] = useState(defaultUsername);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await login(username.trim(), password);
+    } catch (err) {
+      setError(err instanceof AuthError ? err.message : 'Sign-in failed.');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card sx={{ width: '100%', maxWidth: 400 }}>
+      <CardContent sx={{ p: 3 }}>
+        <Box component="form" onSubmit={handleSubmit} sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <LockIcon color="primary" />
+            <Typography variant="h6">{title}</Typography>
+          </Box>
+
+          {notice && <Alert severity="warning">{notice}</Alert>}
+          {error && <Alert severity="error">{error}</Alert>}
+
+          <TextField
+            label="Username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus={!defaultUsername}
+            fullWidth
+          />
+          <TextField
+            label="Password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            autoFocus={!!defaultUsername}
+            fullWidth
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={!username.trim() || !password || isSubmitting}
+            startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+          >
+            {isSubmitting ? 'Signing in…' : 'Sign in'}
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LoginForm;
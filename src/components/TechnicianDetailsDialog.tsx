@@ -0,0 +1,117 @@
+import React, { useMemo } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Chip,
+  Stack,
+  Typography,
+  List,
+  ListItemButton,
+  ListItemText,
+  CircularProgress,
+} from '@mui/material';
+import { format, isAfter, parseISO, startOfHour } from 'date-fns';
+import { Booking } from '../services/bookingApi';
+import { useBookingPage } from '../hooks/useBookings';
+
+interface TechnicianDetailsDialogProps {
+  technicianName: string | null;
+  onClose: () => void;
+  onOpenBooking?: (booking: Booking) => void;
+}
+
+const UPCOMING_LIMIT = 10;
+const HISTORY_SIZE = 100;   // Recent bookings the profession list is drawn from
+
+const sameName = (booking: Booking, name: string) => booking.technician_name.toLowerCase() === name.toLowerCase();
+
+interface TechnicianSummaryProps {
+  technicianName: string;
+  onOpenBooking?: (booking: Booking) => void;
+}
+
+/** Professions, booking count and upcoming bookings of one technician, from server-side pages */
+const TechnicianSummary: React.FC<TechnicianSummaryProps> = ({ technicianName, onOpenBooking }) => {
+  // Whole hours keep the query key stable between renders
+  const since = startOfHour(new Date()).toISOString();
+  const history = useBookingPage({
+    technician_name: technicianName,
+    page: 1,
+    page_size: HISTORY_SIZE,
+    sort_by: 'start_time',
+    sort_order: 'desc',
+  });
+  const next = useBookingPage({
+    technician_name: technicianName,
+    ends_after: since,
+    page: 1,
+    page_size: UPCOMING_LIMIT * 2,
+    sort_by: 'start_time',
+    sort_order: 'asc',
+  });
+
+  const { professions, upcoming } = useMemo(() => {
+    const now = new Date();
+    return {
+      professions: Array.from(new Set(
+        (history.page?.items ?? []).filter((b) => sameName(b, technicianName)).map((b) => b.profession)
+      )).sort(),
+      upcoming: (next.page?.items ?? []).filter((b) => sameName(b, technicianName) && isAfter(parseISO(b.start_time), now)),
+    };
+  }, [history.page, next.page, technicianName]);
+
+  // The server filter matches names containing the text, so the total is an upper bound
+  const total = history.page?.total ?? 0;
+
+  if (!history.page || !next.page) {
+    return <CircularProgress size={24} />;
+  }
+  const hasMore = next.page.total > next.page.items.length;
+
+  return (
+    <Stack spacing={1.5}>
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+        {professions.map((profession) => (
+          <Chip key={profession} label={profession} size="small" />
+        ))}
+      </Stack>
+      <Typography variant="body2" color="text.secondary">
+        {total} booking{total === 1 ? '' : 's'} in total, {upcoming.length}{hasMore ? '+' : ''} upcoming.
+      </Typography>
+      {upcoming.length > 0 && (
+        <List dense disablePadding>
+          {upcoming.slice(0, UPCOMING_LIMIT).map((booking) => (
+            <ListItemButton
+              key={booking.id}
+              disabled={!onOpenBooking}
+              onClick={() => onOpenBooking?.(booking)}
+            >
+              <ListItemText
+                primary={format(parseISO(booking.start_time), 'EEE, MMM dd HH:mm')}
+                secondary={`#${booking.id} · ${booking.customer_name} · ${booking.profession}`}
+              />
+            </ListItemButton>
+          ))}
+        </List>
+      )}
+    </Stack>
+  );
+};
+
+/** A technician's professions and upcoming bookings */
+const TechnicianDetailsDialog: React.FC<TechnicianDetailsDialogProps> = ({ technicianName, onClose, onOpenBooking }) => (
+  <Dialog open={!!technicianName} onClose={onClose} fullWidth maxWidth="xs">
+    <DialogTitle>{technicianName}</DialogTitle>
+    <DialogContent>
+      {technicianName && <TechnicianSummary technicianName={technicianName} onOpenBooking={onOpenBooking} />}
+    </DialogContent>
+    <DialogActions>
+      <Button onClick={onClose}>Close</Button>
+    </DialogActions>
+  </Dialog>
+);
+
+export default TechnicianDetailsDialog;
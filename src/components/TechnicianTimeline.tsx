@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Tooltip,
+  Chip,
+  LinearProgress,
+  Alert,
+  Button,
+  alpha,
+  useTheme,
+} from '@mui/material';
+import { Warning as OverlapIcon } from '@mui/icons-material';
+import { addDays, differenceInCalendarDays, format, isValid, parseISO, startOfDay, startOfWeek } from 'date-fns';
+import { Booking } from '../services/bookingApi';
+import { useBookingRange } from '../hooks/useBookings';
+import {
+  TimeSpan,
+  WORK_DAY_END_HOUR,
+  WORK_DAY_START_HOUR,
+  buildTechnicianSchedules,
+  formatMinutes,
+  getWorkingWindows,
+} from '../utils/technicianSchedule';
+import BookingDetailsDialog from './BookingDetailsDialog';
+
+const LABEL_WIDTH = 200;
+const LANE_HEIGHT = 40;
+const DAY_WIDTH = 220;     // Minimum width of one day, before the lanes scroll
+const MAX_DAYS = 31;
+
+const toInputValue = (date: Date) => format(date, 'yyyy-MM-dd');
+
+/** Bookings per technician on a shared time axis, with idle gaps, utilization and collisions */
+const TechnicianTimeline: React.FC = () => {
+  const theme = useTheme();
+  const [from, setFrom] = useState(() => toInputValue(startOfWeek(new Date(), { weekStartsOn: 1 })));
+  const [to, setTo] = useState(() => toInputValue(addDays(startOfWeek(new Date(), { weekStartsOn: 1 }), 6)));
+  const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
+
+  const fromDate = parseISO(from);
+  const toDate = parseISO(to);
+  const days = isValid(fromDate) && isValid(toDate) ? differenceInCalendarDays(toDate, fromDate) + 1 : 0;
+  const rangeError = days <= 0
+    ? 'Choose an end date on or after the start date.'
+    : days > MAX_DAYS ? `Choose at most ${MAX_DAYS} days.` : null;
+
+  const range = useMemo<TimeSpan | null>(
+    () => (rangeError ? null : { start: startOfDay(parseISO(from)), end: addDays(startOfDay(parseISO(to)), 1) }),
+    [from, to, rangeError]
+  );
+  const { bookings, isLoading, error, refresh } = useBookingRange(range);
+  const schedules = useMemo(() => (range ? buildTechnicianSchedules(bookings, range) : []), [bookings, range]);
+  const workingWindows = useMemo(() => (range ? getWorkingWindows(range) : []), [range]);
+  const overlapCount = schedules.reduce((sum, s) => sum + s.bookings.filter(b => b.overlapsWith.length > 0).length, 0);
+
+  // Horizontal position and width of a span, as percentages of the range
+  const place = (span: TimeSpan) => {
+    if (!range) return { left: '0%', width: '0%' };
+    const total = range.end.getTime() - range.start.getTime();
+    const start = Math.max(span.start.getTime(), range.start.getTime());
+    const end = Math.min(span.end.getTime(), range.end.getTime());
+    return {
+      left: `${((start - range.start.getTime()) / total) * 100}%`,
+      width: `${(Math.max(end - start, 0) / total) * 100}%`,
+    };
+  };
+
+  const dayStarts = range ? Array.from({ length: days }, (_, i) => addDays(range.start, i)) : [];
+
+  return (
+    <Paper elevation={0} sx={{ p: 2, height: '100%', display: 'flex', flexDirection: 'column', gap: 1.5, border: 1, borderColor: 'divider' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1.5 }}>
+        <Typography variant="h6" sx={{ flex: 1 }}>Technician schedules</Typography>
+        <TextField
+          label="From"
+          type="date"
+          size="small"
+          value={from}
+          onChange={e => setFrom(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          label="To"
+          type="date"
+          size="small"
+          value={to}
+          onChange={e => setTo(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          error={!!rangeError}
+        />
+        {overlapCount > 0 && (
+          <Chip
+            icon={<OverlapIcon />}
+            color="error"
+            size="small"
+            label={`${overlapCount} overlapping booking${overlapCount === 1 ? '' : 's'}`}
+          />
+        )}
+      </Box>
+
+      {rangeError && <Alert severity="warning">{rangeError}</Alert>}
+      {error && (
+        <Alert severity="error" action={<Button color="inherit" size="small" onClick={refresh}>Retry</Button>}>
+          {error.message.replace('API request failed: ', '')}
+        </Alert>
+      )}
+      {isLoading && <LinearProgress />}
+
+      <Typography variant="caption" color="text.secondary">
+        Utilization is booked time within working hours ({String(WORK_DAY_START_HOUR).padStart(2, '0')}:00–
+        {String(WORK_DAY_END_HOUR).padStart(2, '0')}:00). Dashed boxes are idle gaps.
+      </Typography>
+
+      <Box sx={{ flex: 1, minHeight: 0, overflow: 'auto', border: 1, borderColor: 'divider', borderRadius: 1 }}>
+        <Box sx={{ minWidth: LABEL_WIDTH + days * DAY_WIDTH }}>
+          <Box sx={{ display: 'flex', position: 'sticky', top: 0, zIndex: 3, bgcolor: 'background.paper', borderBottom: 1, borderColor: 'divider' }}>
+            <Box sx={{ width: LABEL_WIDTH, flexShrink: 0, px: 1, py: 0.5, position: 'sticky', left: 0, bgcolor: 'background.paper' }}>
+              <Typography variant="caption" color="text.secondary">Technician</Typography>
+            </Box>
+            <Box sx={{ flex: 1, position: 'relative', height: 28 }}>
+              {dayStarts.map(day => (
+                <Typography
+                  key={day.toISOString()}
+                  variant="caption"
+                  sx={{ position: 'absolute', ...place({ start: day, end: addDays(day, 1) }), px: 0.5, py: 0.5, borderLeft: 1, borderColor: 'divider' }}
+                >
+                  {format(day, 'EEE MMM d')}
+                </Typography>
+              ))}
+            </Box>
+          </Box>
+
+          {range && !isLoading && schedules.length === 0 && (
+            <Typography variant="body2" color="text.secondary" sx={{ p: 2 }}>No bookings in this date range.</Typography>
+          )}
+
+          {schedules.map(schedule => (
+            <Box key={schedule.technician} sx={{ display: 'flex', borderBottom: 1, borderColor: 'divider' }}>
+              <Box
+                sx={{
+                  width: LABEL_WIDTH,
+                  flexShrink: 0,
+                  px: 1,
+                  py: 0.5,
+                  position: 'sticky',
+                  left: 0,
+                  zIndex: 2,
+                  bgcolor: 'background.paper',
+                  borderRight: 1,
+                  borderColor: 'divider',
+                }}
+              >
+                <Typography variant="body2" noWrap sx={{ fontWeight: 600 }}>{schedule.technician}</Typography>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <LinearProgress
+                    variant="determinate"
+                    value={Math.min(schedule.utilization * 100, 100)}
+                    sx={{ flex: 1, height: 6, borderRadius: 3 }}
+                  />
+                  <Typography variant="caption" color="text.secondary">
+                    {Math.round(schedule.utilization * 100)}%
+                  </Typography>
+                </Box>
+                <Typography variant="caption" color="text.secondary" noWrap component="div">
+                  {schedule.professions.join(', ')} · {formatMinutes(schedule.busyMinutes)} of {formatMinutes(schedule.workingMinutes)}
+                </Typography>
+              </Box>
+
+              <Box sx={{ flex: 1, position: 'relative', minHeight: LANE_HEIGHT + 16 }}>
+                {workingWindows.map(window => (
+                  <Box
+                    key={window.start.toISOString()}
+                    sx={{ position: 'absolute', top: 0, bottom: 0, ...place(window), bgcolor: alpha(theme.palette.primary.main, 0.04) }}
+                  />
+                ))}
+                {dayStarts.map(day => (
+                  <Box
+                    key={day.toISOString()}
+                    sx={{ position: 'absolute', top: 0, bottom: 0, left: place({ start: day, end: day }).left, borderLeft: 1, borderColor: 'divider' }}
+                  />
+                ))}
+                {schedule.gaps.map(gap => (
+                  <Tooltip
+                    key={gap.start.toISOString()}
+                    title={`Idle ${format(gap.start, 'MMM d HH:mm')}–${format(gap.end, 'HH:mm')} (${formatMinutes((gap.end.getTime() - gap.start.getTime()) / 60000)})`}
+                  >
+                    <Box
+                      sx={{
+                        position: 'absolute',
+                        top: 12,
+                        height: LANE_HEIGHT - 8,
+                        ...place(gap),
+                        border: 1,
+                        borderStyle: 'dashed',
+                        borderColor: 'text.disabled',
+                        borderRadius: 1,
+                        boxSizing: 'border-box',
+                      }}
+                    />
+                  </Tooltip>
+                ))}
+                {schedule.bookings.map(({ booking, start, end, overlapsWith }) => {
+                  const isOverlapping = overlapsWith.length > 0;
+                  return (
+                    <Tooltip
+                      key={booking.id}
+                      title={
+                        `#${booking.id} ${booking.customer_name} · ${format(start, 'MMM d HH:mm')}–${format(end, 'HH:mm')}` +
+                        (isOverlapping ? ` · overlaps #${overlapsWith.join(', #')}` : '')
+                      }
+                    >
+                      <Box
+                        role="button"
+                        tabIndex={0}
+                        onClick={() => setSelectedBooking(booking)}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter' || e.key === ' ') setSelectedBooking(booking);
+                        }}
+                        sx={{
+                          position: 'absolute',
+                          top: 8,
+                          height: LANE_HEIGHT,
+                          ...place({ start, end }),
+                          minWidth: 4,
+                          bgcolor: isOverlapping ? alpha(theme.palette.error.main, 0.75) : alpha(theme.palette.primary.main, 0.8),
+                          border: isOverlapping ? 2 : 0,
+                          borderColor: 'error.dark',
+                          borderRadius: 1,
+                          boxSizing: 'border-box',
+                          cursor: 'pointer',
+                          zIndex: 1,
+                          '&:hover, &:focus-visible': { filter: 'brightness(0.9)', outline: 'none' },
+                        }}
+                      />
+                    </Tooltip>
+                  );
+                })}
+                {schedule.overlaps.map(overlap => (
+                  <Box
+                    key={overlap.start.toISOString()}
+                    sx={{
+                      position: 'absolute',
+                      top: 4,
+                      height: 4,
+                      ...place(overlap),
+                      minWidth: 4,
+                      bgcolor: 'error.main',
+                      borderRadius: 1,
+                      pointerEvents: 'none',
+                    }}
+                  />
+                ))}
+              </Box>
+            </Box>
+          ))}
+        </Box>
+      </Box>
+
+      <BookingDetailsDialog booking={selectedBooking} onClose={() => setSelectedBooking(null)} />
+    </Paper>
+  );
+};
+
+export default TechnicianTimeline;
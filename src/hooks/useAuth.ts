@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { AuthState, getAuthState, subscribeToAuth } from '../services/auth';
+
+/** Live view of the current auth session */
+export function useAuth(): AuthState {
+  const [state, setState] = useState<AuthState>(getAuthState());
+
+  useEffect(() => subscribeToAuth(setState), []);
+
+  return state;
+}
@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import { isValid } from 'date-fns';
+import { ConflictReport, checkBookingConflicts, getConflictSearchRange } from '../utils/bookingConflicts';
+import { useBookingRange } from './useBookings';
+
+interface ConflictQuery {
+  technician_name: string;
+  profession: string;
+  start: string;      // Any string `new Date()` accepts, e.g. a datetime-local value
+  end: string;
+  ignoreId?: string;  // Booking being moved
+}
+
+/** Live double-booking check of a form's values against the cached bookings around them */
+export function useBookingConflicts(query: ConflictQuery | null): ConflictReport | null {
+  const { technician_name = '', profession = '', start = '', end = '', ignoreId } = query ?? {};
+  const isActive = query !== null;
+
+  const range = useMemo(() => {
+    const startDate = new Date(start);
+    const endDate = new Date(end);
+    return isActive && isValid(startDate) && isValid(endDate) ? getConflictSearchRange(startDate, endDate) : null;
+  }, [isActive, start, end]);
+  const { bookings } = useBookingRange(range);
+
+  return useMemo(() => (isActive
+    ? checkBookingConflicts(bookings, {
+      technician_name,
+      profession,
+      start: new Date(start),
+      end: new Date(end),
+      ignoreId,
+    })
+    : null
+  ), [bookings, isActive, technician_name, profession, start, end, ignoreId]);
+}
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { addDays, startOfDay } from 'date-fns';
+import { Booking, BookingApiError, BookingListParams, BookingPage } from '../services/bookingApi';
+import {
+  DateRange,
+  QueryState,
+  bookingKey,
+  bookingPageKey,
+  bookingRangeKey,
+  getQueryState,
+  loadBooking,
+  loadBookingPage,
+  loadBookingRange,
+  subscribeQuery,
+} from '../services/bookingStore';
+
+// Window behind `useRecentBookings`, in days around today
+const RECENT_DAYS_BEFORE = 30;
+const RECENT_DAYS_AFTER = 60;
+
+interface BookingsView {
+  bookings: Booking[];
+  isLoading: boolean;     // No data yet and a request is running
+  isFetching: boolean;    // Any request running, including background refreshes
+  error?: BookingApiError;
+  refresh: () => void;
+}
+
+function useQueryState<T>(key: string): QueryState<T> {
+  return useSyncExternalStore(
+    useCallback((listener) => subscribeQuery(key, listener), [key]),
+    () => getQueryState<T>(key)
+  );
+}
+
+/**
+ * Shared, cached bookings overlapping `range`; nothing is loaded while it is null.
+ * Serves cached data and revalidates it when stale.
+ */
+export function useBookingRange(range: DateRange | null): BookingsView {
+  const key = range ? bookingRangeKey(range) : '';
+  const state = useQueryState<Booking[]>(key);
+  const rangeRef = useRef(range);
+  rangeRef.current = range;
+
+  useEffect(() => {
+    if (rangeRef.current) loadBookingRange(rangeRef.current).catch(() => undefined); // Errors are exposed through `state.error`
+  }, [key, state.isStale]);
+
+  const refresh = useCallback(() => {
+    if (rangeRef.current) loadBookingRange(rangeRef.current, true).catch(() => undefined);
+  }, []);
+
+  return {
+    bookings: state.data ?? [],
+    isLoading: !!range && state.data === undefined && (state.isFetching || !state.error),
+    isFetching: state.isFetching,
+    error: state.error,
+    refresh,
+  };
+}
+
+/** Bookings from a month before to two months after today, for suggestions and summaries */
+export function useRecentBookings(): BookingsView {
+  const today = startOfDay(new Date()).getTime();
+  const range = useMemo(() => ({
+    start: addDays(today, -RECENT_DAYS_BEFORE),
+    end: addDays(today, RECENT_DAYS_AFTER),
+  }), [today]);
+  return useBookingRange(range);
+}
+
+/**
+ * Latest cached copy of one booking, falling back to `initial` until it loads.
+ * Returns `null` once the booking is known to have been deleted.
+ */
+export function useBooking(bookingId: string, initial?: Booking): Booking | null | undefined {
+  const state = useQueryState<Booking | null>(bookingKey(bookingId));
+
+  useEffect(() => {
+    if (!initial) loadBooking(bookingId).catch(() => undefined);
+  }, [bookingId, initial]);
+
+  return state.data === undefined ? initial : state.data;
+}
+
+interface BookingDetailsView {
+  booking?: Booking | null;   // `null` once the booking is known to be deleted or missing
+  isLoading: boolean;
+  error?: BookingApiError;
+  refresh: () => void;
+}
+
+/** One booking loaded by ID (through `getBookingById`), for pages opened from a link */
+export function useBookingDetails(bookingId: string): BookingDetailsView {
+  const state = useQueryState<Booking | null>(bookingKey(bookingId));
+  const isNotFound = state.error?.status === 404;
+
+  useEffect(() => {
+    loadBooking(bookingId).catch(() => undefined); // Errors are exposed through `state.error`
+  }, [bookingId, state.isStale]);
+
+  const refresh = useCallback(() => {
+    loadBooking(bookingId, true).catch(() => undefined);
+  }, [bookingId]);
+
+  return {
+    booking: isNotFound ? null : state.data,
+    isLoading: state.data === undefined && !state.error,
+    error: isNotFound ? undefined : state.error,
+    refresh,
+  };
+}
+
+interface BookingPageView {
+  page?: BookingPage;     // Keeps the previous page while the next one loads
+  isFetching: boolean;
+  error?: BookingApiError;
+}
+
+/** One server-side page of bookings for the given paging, sorting and filter parameters */
+export function useBookingPage(params: BookingListParams): BookingPageView {
+  const key = bookingPageKey(params);
+  const state = useQueryState<BookingPage>(key);
+  const lastPage = useRef<BookingPage | undefined>(undefined);
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+
+  useEffect(() => {
+    loadBookingPage(paramsRef.current).catch(() => undefined);
+  }, [key, state.isStale]);
+
+  if (state.data) lastPage.current = state.data;
+
+  return {
+    page: state.data ?? lastPage.current,
+    isFetching: state.isFetching,
+    error: state.error,
+  };
+}
@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { ConversationSummary, subscribeToConversations } from '../services/conversationHistory';
+
+/** Live list of stored conversations, most recent first */
+export function useConversations(): ConversationSummary[] {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+
+  useEffect(() => subscribeToConversations(setConversations), []);
+
+  return conversations;
+}
@@ -0,0 +1,9 @@
+import { useMemo } from 'react';
+import { EntityLexicon, buildEntityLexicon } from '../utils/chatEntities';
+import { useRecentBookings } from './useBookings';
+
+/** Technicians, professions and booking IDs known from recent bookings */
+export function useEntityLexicon(): EntityLexicon {
+  const { bookings } = useRecentBookings();
+  return useMemo(() => buildEntityLexicon(bookings), [bookings]);
+}
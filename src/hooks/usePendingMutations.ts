@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+import { PendingMutation, subscribeToQueue } from '../services/offlineQueue';
+
+/** Live view of the offline mutation queue */
+export function usePendingMutations(): PendingMutation[] {
+  const [pending, setPending] = useState<PendingMutation[]>([]);
+
+  useEffect(() => subscribeToQueue(setPending), []);
+
+  return pending;
+}
@@ -0,0 +1,179 @@
+/**
+ * auth.ts
+ *
+ * Authentication service: sign-in, token storage and token refresh.
+ *
+ * Features:
+ * - Access/refresh token persistence in localStorage.
+ * - Single-flight refresh: concurrent callers share one refresh request.
+ * - Session change notifications (sign-in, sign-out, expiry).
+ */
+
+import axios, { AxiosResponse } from 'axios';
+import { BASE_URL, USE_MOCK_API } from './config';
+import { mockAdapter } from './mock';
+
+// -----------------------------------------------------------------------------
+// 1) Types
+// -----------------------------------------------------------------------------
+
+/** Tokens issued by the backend */
+interface TokenPair {
+  access_token: string;
+  refresh_token: string;
+}
+
+export type AuthStatus = 'anonymous' | 'authenticated' | 'expired';
+
+/** Current session state */
+export interface AuthState {
+  status: AuthStatus;
+  username: string | null;
+}
+
+type AuthListener = (state: AuthState) => void;
+
+/** Raised when sign-in or token refresh fails */
+export class AuthError extends Error {
+  public status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// 2) Token Storage
+// -----------------------------------------------------------------------------
+const ACCESS_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+const USERNAME_KEY = 'authUsername';
+
+export function getAccessToken(): string | null {
+  return localStorage.getItem(ACCESS_TOKEN_KEY);
+}
+
+function getRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+function storeTokens(tokens: TokenPair): void {
+  localStorage.setItem(ACCESS_TOKEN_KEY, tokens.access_token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refresh_token);
+}
+
+function clearTokens(): void {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(USERNAME_KEY);
+}
+
+// -----------------------------------------------------------------------------
+// 3) Session State & Notifications
+// -----------------------------------------------------------------------------
+let state: AuthState = getAccessToken()
+  ? { status: 'authenticated', username: localStorage.getItem(USERNAME_KEY) }
+  : { status: 'anonymous', username: null };
+
+const listeners = new Set<AuthListener>();
+
+function setState(next: AuthState): void {
+  state = next;
+  listeners.forEach((listener) => listener(state));
+}
+
+export function getAuthState(): AuthState {
+  return state;
+}
+
+/** Subscribe to session changes */
+export function subscribeToAuth(listener: AuthListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// -----------------------------------------------------------------------------
+// 4) Auth Endpoints
+// -----------------------------------------------------------------------------
+
+// Separate client so auth calls never pass through the booking API's 401 handling
+const authClient = axios.create({
+  baseURL: BASE_URL,
+  timeout: 10_000,
+  headers: {
+    'Content-Type': 'application/json',
+  },
+  adapter: USE_MOCK_API ? mockAdapter : undefined,
+});
+
+function toAuthError(error: unknown, fallback: string): AuthError {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data as { detail?: unknown } | undefined;
+    const detail = typeof data?.detail === 'string' ? data.detail : error.message;
+    return new AuthError(detail || fallback, error.response?.status);
+  }
+  return new AuthError(fallback);
+}
+
+/** Sign in with username and password */
+export async function login(username: string, password: string): Promise<void> {
+  try {
+    const res: AxiosResponse<TokenPair> = await authClient.post('/api/v1/auth/login', { username, password });
+    storeTokens(res.data);
+    localStorage.setItem(USERNAME_KEY, username);
+    setState({ status: 'authenticated', username });
+  } catch (error) {
+    throw toAuthError(error, 'Sign-in failed.');
+  }
+}
+
+/** Sign out. `expired` marks a forced sign-out after a failed refresh. */
+export function logout(expired = false): void {
+  clearTokens();
+  setState({ status: expired ? 'expired' : 'anonymous', username: expired ? state.username : null });
+}
+
+let activeRefresh: Promise<string> | null = null;
+
+/**
+ * Exchange the refresh token for a new access token.
+ * Concurrent callers share the same in-flight request. On failure the
+ * session is ended and listeners are told it expired.
+ */
+export function refreshAccessToken(): Promise<string> {
+  if (!activeRefresh) {
+    activeRefresh = runRefresh().finally(() => {
+      activeRefresh = null;
+    });
+  }
+  return activeRefresh;
+}
+
+async function runRefresh(): Promise<string> {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) {
+    logout(true);
+    throw new AuthError('Your session has expired.');
+  }
+  try {
+    const res: AxiosResponse<TokenPair> = await authClient.post('/api/v1/auth/refresh', {
+      refresh_token: refreshToken,
+    });
+    storeTokens(res.data);
+    return res.data.access_token;
+  } catch (error) {
+    logout(true);
+    throw toAuthError(error, 'Your session has expired.');
+  }
+}
+
+/** Resolves once any in-flight refresh has settled, so new requests carry the fresh token */
+export async function waitForRefresh(): Promise<void> {
+  if (activeRefresh) {
+    await activeRefresh.catch(() => undefined);
+  }
+}
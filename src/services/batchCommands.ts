@@ -0,0 +1,96 @@
+/**
+ * batchCommands.ts
+ *
+ * Multi-line input: every non-empty line is sent to `processCommand` as its
+ * own command, one after another.
+ */
+
+import {
+  BookingAbortedError,
+  BookingApiError,
+  CommandResult,
+  RequestOptions,
+  getClarificationCandidates,
+  processCommand,
+} from './bookingApi';
+import { BatchLine } from './conversationHistory';
+
+// List markers pasted along with the jobs: "- ", "* ", "1. ", "2) "
+const LIST_MARKER = /^\s*(?:[-*•]|\d{1,3}[.)])\s+/;
+
+/** Commands in a pasted block, one per non-empty line, without list markers */
+export function splitBatchCommands(input: string): string[] {
+  return input
+    .split(/\r?\n/)
+    .map((line) => line.replace(LIST_MARKER, '').trim())
+    .filter(Boolean);
+}
+
+/** True when the input holds more than one command */
+export function isBatchInput(input: string): boolean {
+  return splitBatchCommands(input).length > 1;
+}
+
+/** Lines that did not succeed and can be retried */
+export function getFailedLines(lines: BatchLine[]): BatchLine[] {
+  return lines.filter((line) => line.status === 'error' || line.status === 'cancelled');
+}
+
+/** Outcome of one line. Ambiguous commands fail, since a batch cannot stop to ask. */
+function toBatchLine(command: string, result: CommandResult): BatchLine {
+  const candidates = getClarificationCandidates(result);
+  if (candidates.length > 0) {
+    return {
+      command,
+      status: 'error',
+      intent: result.intent,
+      message: `Ambiguous command. It could mean: ${candidates.map((c) => c.intent.replace(/_/g, ' ')).join(', ')}.`,
+    };
+  }
+  const failed = !result.success || result.intent.includes('error');
+  return {
+    command,
+    status: failed ? 'error' : 'success',
+    intent: result.intent,
+    message: result.message || (failed ? 'The command failed.' : 'Done.'),
+  };
+}
+
+/**
+ * Run commands in order, reporting each line as it starts and finishes.
+ * A failing line does not stop the batch; aborting marks the remaining lines cancelled.
+ */
+export async function runBatch(
+  commands: string[],
+  onUpdate: (lines: BatchLine[]) => void,
+  { signal }: RequestOptions = {}
+): Promise<BatchLine[]> {
+  let lines: BatchLine[] = commands.map((command) => ({ command, status: 'pending' }));
+  const setLine = (index: number, line: BatchLine) => {
+    lines = lines.map((existing, i) => (i === index ? line : existing));
+    onUpdate(lines);
+  };
+
+  for (let index = 0; index < commands.length; index++) {
+    const command = commands[index];
+    if (signal?.aborted) {
+      setLine(index, { command, status: 'cancelled', message: 'Stopped before this line ran.' });
+      continue;
+    }
+    setLine(index, { command, status: 'running' });
+    try {
+      setLine(index, toBatchLine(command, await processCommand(command, { signal })));
+    } catch (error) {
+      if (error instanceof BookingAbortedError) {
+        setLine(index, { command, status: 'cancelled', message: 'Stopped while this line was running. It may have been applied.' });
+        continue;
+      }
+      setLine(index, {
+        command,
+        status: 'error',
+        message: error instanceof BookingApiError ? error.message.replace('API request failed: ', '') : 'An unexpected error occurred.',
+      });
+    }
+  }
+  return lines;
+}
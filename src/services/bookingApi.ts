@@ -5,31 +5,115 @@
  *
  * Features:
  * - Centralized Axios instance with auto-retries & error handling.
- * - TypeScript interfaces for all API responses.
- * - Token authentication support.
+ * - Exponential backoff with jitter for idempotent requests; `AbortSignal` support everywhere.
+ * - TypeScript interfaces and runtime schemas for all API responses.
+ * - Token authentication with single-flight refresh on 401.
  * - Automatic datetime conversion.
+ * - Offline queueing and in-order replay of create/update/delete mutations.
+ * - Idempotency keys on creates, so a replayed create cannot book twice.
+ * - Booking status changes checked against the allowed lifecycle transitions.
+ * - Streamed command replies (SSE or NDJSON), falling back to request/response.
  */
 
-import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, AxiosError, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { API_MAX_RETRIES, AUTH_ENABLED, BASE_URL, STREAM_COMMANDS, USE_MOCK_API } from './config';
+import { getAccessToken, refreshAccessToken, waitForRefresh } from './auth';
+import { recordContractViolation } from './contractViolations';
+import { mockAdapter } from './mock';
+import { paginateBookings } from '../utils/paginateBookings';
+import { delay } from '../utils/delay';
+import { isEventStreamType, readEventStream, readStreamText } from './eventStream';
+import {
+  BOOKING_STATUS_LABELS,
+  BookingStatus,
+  DEFAULT_BOOKING_STATUS,
+  bookingStatus,
+  canTransitionStatus,
+} from './bookingStatus';
+import {
+  Schema,
+  SchemaViolation,
+  array,
+  boolean,
+  dateTime,
+  envelope,
+  identifier,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+} from './schemas';
+import {
+  PendingMutation,
+  enqueueMutation,
+  listPendingMutations,
+  removePendingMutation,
+  updatePendingMutation,
+} from './offlineQueue';
 
 // -----------------------------------------------------------------------------
 // 1) Environment Configuration
 // -----------------------------------------------------------------------------
-const BASE_URL: string = import.meta.env.VITE_BOOKING_API_URL || 'http://127.0.0.1:8000';
-
 const apiClient: AxiosInstance = axios.create({
   baseURL: BASE_URL,
   timeout: 10_000, // 10 seconds
   headers: {
     'Content-Type': 'application/json',
   },
+  adapter: USE_MOCK_API ? mockAdapter : undefined,
 });
 
+/** Retry policy for idempotent requests */
+export interface RetryOptions {
+  retries: number;       // Attempts after the first one
+  baseDelayMs: number;   // Ceiling of the first backoff; doubles with every attempt
+  maxDelayMs: number;
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Per-request override of the retry policy; `false` disables retries */
+    retry?: Partial<RetryOptions> | false;
+  }
+}
+
+/** Request config flags tracking replays of the same request */
+interface RetriableRequestConfig extends InternalAxiosRequestConfig {
+  _authRetried?: boolean;
+  _retryCount?: number;
+}
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+let retryOptions: RetryOptions = { retries: API_MAX_RETRIES, baseDelayMs: 500, maxDelayMs: 8_000 };
+
+/** Change the default retry policy for all subsequent requests */
+export function configureRetries(options: Partial<RetryOptions>): void {
+  retryOptions = { ...retryOptions, ...options };
+}
+
+/** Delay before retry number `attempt` (1-based): honors `Retry-After`, otherwise full jitter */
+function retryDelay(error: AxiosError, attempt: number, policy: RetryOptions): number {
+  const retryAfter = Number(error.response?.headers?.['retry-after']);
+  if (Number.isFinite(retryAfter) && retryAfter >= 0) return Math.min(retryAfter * 1000, policy.maxDelayMs);
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/** Network failures, 429 and 5xx are worth retrying, but only for idempotent methods */
+function isRetriable(error: AxiosError, config: RetriableRequestConfig): boolean {
+  if (axios.isCancel(error) || !IDEMPOTENT_METHODS.includes(config.method ?? 'get')) return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
 // -----------------------------------------------------------------------------
 // 2) Axios Interceptors for Logging & Error Handling
 // -----------------------------------------------------------------------------
-apiClient.interceptors.request.use((config) => {
-  const token = localStorage.getItem('authToken'); // Load token from storage
+apiClient.interceptors.request.use(async (config) => {
+  await waitForRefresh(); // Hold new requests while a refresh is in flight
+  const token = getAccessToken();
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
@@ -40,12 +124,36 @@ apiClient.interceptors.request.use((config) => {
 apiClient.interceptors.response.use(
   (response) => response,
   async (error) => {
-    if (axios.isAxiosError(error)) {
+    if (axios.isAxiosError(error) && !axios.isCancel(error)) {
       console.error(`[API Error] ${error.config?.url} - ${error.message}`);
 
-      // Handle token expiration and refresh if needed
-      if (error.response?.status === 401) {
-        // Refresh token logic here if applicable
+      // Refresh the access token once and replay the request
+      const config = error.config as RetriableRequestConfig | undefined;
+      if (AUTH_ENABLED && error.response?.status === 401 && config && !config._authRetried) {
+        config._authRetried = true;
+        try {
+          const token = await refreshAccessToken();
+          config.headers.Authorization = `Bearer ${token}`;
+          return apiClient(config);
+        } catch (refreshError) {
+          return Promise.reject(
+            new BookingApiError('Your session has expired. Please sign in again.', 401, refreshError)
+          );
+        }
+      }
+
+      // Back off and replay idempotent requests after transient failures
+      const policy = config && config.retry !== false ? { ...retryOptions, ...config.retry } : null;
+      if (config && policy && (config._retryCount ?? 0) < policy.retries && isRetriable(error, config)) {
+        config._retryCount = (config._retryCount ?? 0) + 1;
+        const wait = retryDelay(error, config._retryCount, policy);
+        console.warn(`[API] Retrying ${config.url} in ${wait} ms (attempt ${config._retryCount}/${policy.retries})`);
+        try {
+          await delay(wait, config.signal as AbortSignal | undefined);
+        } catch {
+          return Promise.reject(new CanceledError(undefined, undefined, config));
+        }
+        return apiClient(config);
       }
     }
     return Promise.reject(error);
@@ -64,6 +172,29 @@ export interface Booking {
   profession: string;
   start_time: string;  // ISO string
   end_time: string;    // ISO string
+  status: BookingStatus;
+}
+
+/** Query parameters for listing bookings */
+export interface BookingListParams {
+  page?: number;                   // 1-based
+  page_size?: number;
+  sort_by?: keyof Booking;
+  sort_order?: 'asc' | 'desc';
+  customer_name?: string;          // Case-insensitive "contains" filters
+  technician_name?: string;
+  profession?: string;
+  status?: BookingStatus;          // Exact match
+  ends_after?: string;             // ISO; with `starts_before`, bookings overlapping a time range
+  starts_before?: string;          // ISO
+}
+
+/** One page of bookings plus the total across all pages */
+export interface BookingPage {
+  items: Booking[];
+  total: number;
+  page: number;
+  page_size: number;
 }
 
 /** Payload for creating a new booking */
@@ -74,9 +205,37 @@ export interface BookingCreatePayload {
   start_time: string;  // ISO datetime
 }
 
+/** Payload for partially updating (rescheduling) a booking. Omitted fields are left unchanged. */
+export interface BookingUpdatePayload {
+  technician_name?: string;
+  profession?: string;
+  start_time?: string;  // ISO datetime
+  end_time?: string;    // ISO datetime
+  status?: BookingStatus;
+}
+
+/** Options accepted by every exported API function */
+export interface RequestOptions {
+  signal?: AbortSignal;   // Aborts the request, including any pending retries
+}
+
 /** Command processing request payload */
 interface CommandPayload {
   message: string;
+  response_format: 'structured';  // Ask for `bookings` arrays instead of text listings
+  intent?: string;                 // Skip intent detection and use this intent
+}
+
+/** Options for `processCommand` */
+export interface CommandOptions extends RequestOptions {
+  intent?: string;   // Intent the user picked when clarifying an ambiguous command
+}
+
+/** One ranked intent candidate from the NLP analysis */
+export interface IntentAnalysis {
+  intent: string;
+  confidence: number;
+  assessment: string;
 }
 
 /** API response from processing a command */
@@ -84,11 +243,44 @@ export interface CommandResult {
   success: boolean;
   intent: string;
   message?: string;
-  analysis?: { intent: string; confidence: number; assessment: string }[];
+  analysis?: IntentAnalysis[];
   booking?: Booking;
   bookings?: Booking[];
 }
 
+/** Reply of a streamed command, accumulated so far */
+export interface CommandStreamProgress {
+  message: string;
+  bookings: Booking[];
+  analysis?: IntentAnalysis[];
+}
+
+export interface StreamCommandOptions extends CommandOptions {
+  onProgress?: (progress: CommandStreamProgress) => void;
+}
+
+/** Intents whose results are a list of bookings */
+export function isListingIntent(intent: string): boolean {
+  return /^(list|search|find)_/.test(intent);
+}
+
+/** Top-intent confidence below which the user is asked what they meant */
+export const CLARIFICATION_THRESHOLD = 0.6;
+
+/** Candidate intents to offer when the top intent is too uncertain; empty when no clarification is needed */
+export function getClarificationCandidates(result: CommandResult, max = 3): IntentAnalysis[] {
+  const ranked = [...(result.analysis ?? [])]
+    .filter((candidate) => candidate.intent !== 'unknown')
+    .sort((a, b) => b.confidence - a.confidence);
+  if (ranked.length === 0 || ranked[0].confidence >= CLARIFICATION_THRESHOLD) return [];
+  return ranked.slice(0, max);
+}
+
+/** Intents that create, change or remove bookings */
+export function isMutationIntent(intent: string): boolean {
+  return /^(create|book|cancel|delete|remove|update|reschedule)_/.test(intent);
+}
+
 /** Standardized API error format */
 export class BookingApiError extends Error {
   public status?: number;
@@ -102,17 +294,135 @@ export class BookingApiError extends Error {
   }
 }
 
+/** Raised when a response does not match its declared schema */
+export class BookingContractError extends BookingApiError {
+  public endpoint: string;
+  public field: string;
+  public expected: string;
+  public received: string;
+
+  constructor(endpoint: string, violation: SchemaViolation) {
+    super(`Unexpected response from ${endpoint}: field "${violation.path}" should be ${violation.expected} but was ${violation.received}.`, undefined, violation);
+    this.name = 'BookingContractError';
+    this.endpoint = endpoint;
+    this.field = violation.path;
+    this.expected = violation.expected;
+    this.received = violation.received;
+  }
+}
+
+/** Raised when a request was cancelled through its `AbortSignal` */
+export class BookingAbortedError extends BookingApiError {
+  constructor(originalError?: unknown) {
+    super('The request was cancelled.', undefined, originalError);
+    this.name = 'BookingAbortedError';
+  }
+}
+
+/** Raised when a mutation could not reach the backend and was queued for replay */
+export class BookingQueuedError extends BookingApiError {
+  public mutation: PendingMutation;
+
+  constructor(mutation: PendingMutation, originalError?: unknown) {
+    super('The server is unreachable. Your change was saved and will be sent when the connection returns.', undefined, originalError);
+    this.name = 'BookingQueuedError';
+    this.mutation = mutation;
+  }
+}
+
+/** Outcome of replaying a single queued mutation */
+export interface ReplayOutcome {
+  mutation: PendingMutation;
+  status: 'applied' | 'conflict';
+  booking?: Booking;   // Set for applied creates and updates
+  detail?: string;     // Server explanation for conflicts
+  httpStatus?: number;
+}
+
+/** Summary of a replay pass over the offline queue */
+export interface ReplayReport {
+  outcomes: ReplayOutcome[];
+  remaining: number;   // Mutations still queued (replay stopped on a network failure)
+}
+
 // -----------------------------------------------------------------------------
-// 4) Utility Function: Convert Dates to ISO Format
+// 4) Response Schemas
+// -----------------------------------------------------------------------------
+export const bookingSchema: Schema<Booking> = object({
+  id: identifier(),
+  customer_name: string(),
+  technician_name: string(),
+  profession: string(),
+  start_time: dateTime(),
+  end_time: dateTime(),
+  status: bookingStatus(),
+}, 'booking');
+
+const intentAnalysisSchema: Schema<IntentAnalysis> = object({
+  intent: string(),
+  confidence: number(),
+  assessment: string(),
+}, 'intent analysis');
+
+const commandResultSchema: Schema<CommandResult> = object({
+  success: boolean(),
+  intent: string(),
+  message: optional(string()),
+  analysis: optional(array(intentAnalysisSchema)),
+  booking: optional(bookingSchema),
+  bookings: optional(array(bookingSchema)),
+}, 'command result');
+
+const bookingPageSchema: Schema<BookingPage> = object({
+  items: array(bookingSchema),
+  total: number(),
+  page: number(),
+  page_size: number(),
+}, 'booking page');
+
+const bookingEnvelope = envelope(bookingSchema);
+// Servers without pagination support return the whole list as a plain array
+const bookingListEnvelope = envelope(oneOf(bookingPageSchema, array(bookingSchema)));
+const commandResultEnvelope = envelope(commandResultSchema);
+
+const streamDeltaSchema = object({ text: string() }, 'text delta');
+const streamErrorSchema = object({ detail: optional(string()) }, 'stream error');
+
+/** Validate a response body, recording and raising a contract error on mismatch */
+function parseResponse<T>(res: AxiosResponse<unknown>, schema: Schema<T>): T {
+  return parseBody(`${res.config.method?.toUpperCase() ?? 'GET'} ${res.config.url ?? ''}`, res.data, schema);
+}
+
+function parseBody<T>(endpoint: string, body: unknown, schema: Schema<T>, path = ''): T {
+  try {
+    return schema.parse(body, path);
+  } catch (error) {
+    if (error instanceof SchemaViolation) {
+      recordContractViolation({
+        endpoint,
+        field: error.path || '(root)',
+        expected: error.expected,
+        received: error.received,
+      });
+      throw new BookingContractError(endpoint, error);
+    }
+    throw error;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// 5) Utility Function: Convert Dates to ISO Format
 // -----------------------------------------------------------------------------
 function toISO(date: Date | string): string {
   return new Date(date).toISOString();
 }
 
 // -----------------------------------------------------------------------------
-// 5) Error Handling: Convert Axios Errors into User-Friendly Messages
+// 6) Error Handling: Convert Axios Errors into User-Friendly Messages
 // -----------------------------------------------------------------------------
-function handleAxiosError(error: unknown): never {
+function toBookingApiError(error: unknown): BookingApiError {
+  if (error instanceof BookingApiError) return error;
+  if (axios.isCancel(error)) return new BookingAbortedError(error);
   if (axios.isAxiosError(error)) {
     const axiosErr = error as AxiosError;
     const status = axiosErr.response?.status;
@@ -130,68 +440,402 @@ function handleAxiosError(error: unknown): never {
       detail = axiosErr.message;
     }
 
-    throw new BookingApiError(`API request failed: ${detail}`, status, error);
+    return new BookingApiError(`API request failed: ${detail}`, status, error);
   }
-  throw new BookingApiError('An unexpected error occurred.', undefined, error);
+  return new BookingApiError('An unexpected error occurred.', undefined, error);
+}
+
+function handleAxiosError(error: unknown): never {
+  throw toBookingApiError(error);
+}
+
+/** True when the request never got an HTTP response (server down, Wi-Fi dropped, timeout) */
+function isNetworkError(error: unknown): boolean {
+  return axios.isAxiosError(error) && !error.response && !axios.isCancel(error);
 }
 
 // -----------------------------------------------------------------------------
-// 6) CRUD Operations
+// 7) CRUD Operations
 // -----------------------------------------------------------------------------
 
-/** Fetch all bookings */
-export async function getAllBookings(): Promise<Booking[]> {
+/** Fetch one page of bookings with optional sorting and filtering */
+export async function getAllBookings(
+  params: BookingListParams = {},
+  { signal }: RequestOptions = {}
+): Promise<BookingPage> {
   try {
-    // ✅ Use the correct endpoint from your API
-    const res: AxiosResponse<{ success: boolean; data: Booking[] }> = await apiClient.get('/api/v1/bookings/');
-
-    return res.data.data.map((b) => ({
-      ...b,
-      start_time: toISO(b.start_time),
-      end_time: toISO(b.end_time),
-    }));
+    const res = await apiClient.get('/api/v1/bookings/', { params, signal });
+    const { data } = parseResponse(res, bookingListEnvelope);
+    const page = Array.isArray(data) ? paginateBookings(data, params) : data;
+
+    return {
+      ...page,
+      items: page.items.map((b) => ({
+        ...b,
+        start_time: toISO(b.start_time),
+        end_time: toISO(b.end_time),
+      })),
+    };
   } catch (error) {
     handleAxiosError(error);
   }
 }
 
+/** Fetch every booking matching `filters` by walking all pages; narrow it, e.g. to a time range */
+export async function getEveryBooking(
+  filters: Omit<BookingListParams, 'page' | 'page_size'> = {},
+  pageSize = 500,
+  options: RequestOptions = {}
+): Promise<Booking[]> {
+  const first = await getAllBookings({ ...filters, page: 1, page_size: pageSize }, options);
+  const bookings = [...first.items];
+  const pageCount = Math.ceil(first.total / first.page_size);
 
-/** Create a new booking */
-export async function createBooking(data: BookingCreatePayload): Promise<Booking> {
+  for (let page = 2; page <= pageCount; page++) {
+    const next = await getAllBookings({ ...filters, page, page_size: pageSize }, options);
+    bookings.push(...next.items);
+  }
+  return bookings;
+}
+
+/** Create a new booking. Throws `BookingQueuedError` if it was queued for later replay. */
+export async function createBooking(data: BookingCreatePayload, options: RequestOptions = {}): Promise<Booking> {
+  const idempotencyKey = crypto.randomUUID();
   try {
-    const res: AxiosResponse<{ success: boolean; data: Booking }> = await apiClient.post('/api/v1/bookings', data);
-    return res.data.data;
+    return await sendCreateBooking(data, idempotencyKey, options);
   } catch (error) {
+    // A timeout or dropped response may still have created the booking; the replay
+    // reuses the key so the server returns that booking instead of making another
+    if (isNetworkError(error)) {
+      const mutation = await enqueueMutation({ kind: 'create', payload: data, idempotencyKey });
+      throw new BookingQueuedError(mutation, error);
+    }
     handleAxiosError(error);
   }
 }
 
+async function sendCreateBooking(
+  data: BookingCreatePayload,
+  idempotencyKey: string,
+  { signal }: RequestOptions = {}
+): Promise<Booking> {
+  const res = await apiClient.post('/api/v1/bookings', data, { signal, headers: { 'Idempotency-Key': idempotencyKey } });
+  return parseResponse(res, bookingEnvelope).data;
+}
+
 /** Retrieve a single booking by ID */
-export async function getBookingById(bookingId: string): Promise<Booking> {
+export async function getBookingById(bookingId: string, { signal }: RequestOptions = {}): Promise<Booking> {
   try {
-    const res: AxiosResponse<{ success: boolean; data: Booking }> = await apiClient.get(`/api/v1/bookings/${bookingId}`);
-    return res.data.data;
+    const res = await apiClient.get(`/api/v1/bookings/${bookingId}`, { signal });
+    return parseResponse(res, bookingEnvelope).data;
   } catch (error) {
     handleAxiosError(error);
   }
 }
 
-/** Delete a booking */
-export async function deleteBooking(bookingId: string): Promise<void> {
+/** Partially update a booking. Throws `BookingQueuedError` if it was queued for later replay. */
+export async function updateBooking(
+  bookingId: string,
+  changes: BookingUpdatePayload,
+  options: RequestOptions = {}
+): Promise<Booking> {
+  const payload = Object.fromEntries(
+    Object.entries(changes).filter(([, value]) => value !== undefined)
+  ) as BookingUpdatePayload;
+  if (Object.keys(payload).length === 0) {
+    throw new BookingApiError('Nothing to update: provide at least one field to change.');
+  }
+  if (payload.start_time) payload.start_time = toISO(payload.start_time);
+  if (payload.end_time) payload.end_time = toISO(payload.end_time);
+
+  try {
+    return await sendUpdateBooking(bookingId, payload, options);
+  } catch (error) {
+    if (isNetworkError(error)) {
+      const mutation = await enqueueMutation({ kind: 'update', bookingId, changes: payload });
+      throw new BookingQueuedError(mutation, error);
+    }
+    handleAxiosError(error);
+  }
+}
+
+async function sendUpdateBooking(
+  bookingId: string,
+  changes: BookingUpdatePayload,
+  { signal }: RequestOptions = {}
+): Promise<Booking> {
+  const res = await apiClient.patch(`/api/v1/bookings/${bookingId}`, changes, { signal });
+  return parseResponse(res, bookingEnvelope).data;
+}
+
+/**
+ * Move a booking to a new status. Transitions outside the lifecycle are rejected
+ * before any request is made; the server checks them again.
+ */
+export async function updateBookingStatus(
+  booking: Booking,
+  status: BookingStatus,
+  options: RequestOptions = {}
+): Promise<Booking> {
+  if (!canTransitionStatus(booking.status, status)) {
+    throw new BookingApiError(
+      `Booking #${booking.id} cannot change from ${BOOKING_STATUS_LABELS[booking.status]} to ${BOOKING_STATUS_LABELS[status]}.`,
+      409
+    );
+  }
+  return updateBooking(booking.id, { status }, options);
+}
+
+/**
+ * Undo a cancellation, moving the booking back to an active status. The lifecycle
+ * treats cancelled as final, so only this server endpoint may do it; it is not queued offline.
+ */
+export async function reopenBooking(
+  bookingId: string,
+  status: BookingStatus = DEFAULT_BOOKING_STATUS,
+  { signal }: RequestOptions = {}
+): Promise<Booking> {
   try {
-    await apiClient.delete(`/bookings/${bookingId}`);
+    const res = await apiClient.post(`/api/v1/bookings/${bookingId}/reopen`, { status }, { signal });
+    return parseResponse(res, bookingEnvelope).data;
   } catch (error) {
     handleAxiosError(error);
   }
 }
 
+/** Delete a booking. Throws `BookingQueuedError` if it was queued for later replay. */
+export async function deleteBooking(bookingId: string, options: RequestOptions = {}): Promise<void> {
+  try {
+    await sendDeleteBooking(bookingId, options);
+  } catch (error) {
+    if (isNetworkError(error)) {
+      const mutation = await enqueueMutation({ kind: 'delete', bookingId });
+      throw new BookingQueuedError(mutation, error);
+    }
+    handleAxiosError(error);
+  }
+}
+
+async function sendDeleteBooking(bookingId: string, { signal }: RequestOptions = {}): Promise<void> {
+  await apiClient.delete(`/api/v1/bookings/${bookingId}`, { signal });
+}
+
+const COMMAND_STREAM_PATH = '/api/v1/bookings/commands/stream';
+let isStreamingUnsupported = !STREAM_COMMANDS || typeof ReadableStream === 'undefined';
+
+/** Streamed error bodies arrive as streams; read them so the error detail can be shown */
+async function readErrorBody(error: unknown): Promise<void> {
+  if (axios.isAxiosError(error) && error.response?.data instanceof ReadableStream) {
+    const text = await readStreamText(error.response.data).catch(() => '');
+    try {
+      error.response.data = JSON.parse(text);
+    } catch {
+      error.response.data = text;
+    }
+  }
+}
+
+/**
+ * Process a command via NLP, reporting the reply as it streams in.
+ * Uses the request/response endpoint when streaming is disabled or the
+ * server does not offer it. Resolves with the complete result either way.
+ */
+export async function streamCommand(
+  message: string,
+  { signal, intent, onProgress }: StreamCommandOptions = {}
+): Promise<CommandResult> {
+  if (isStreamingUnsupported) return processCommand(message, { signal, intent });
+
+  const endpoint = `POST ${COMMAND_STREAM_PATH}`;
+  const payload: CommandPayload = { message, response_format: 'structured', intent };
+  let res: AxiosResponse<ReadableStream<Uint8Array>>;
+  try {
+    res = await apiClient.post(COMMAND_STREAM_PATH, payload, {
+      signal,
+      adapter: USE_MOCK_API ? mockAdapter : 'fetch',
+      responseType: 'stream',
+      timeout: 0, // Replies may stream for longer than the default timeout; Stop aborts them
+      headers: { Accept: 'text/event-stream, application/x-ndjson, application/json' },
+    });
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    if (status === 404 || status === 405 || status === 501) {
+      console.warn('[API] Streamed commands are not supported by the server; using request/response.');
+      isStreamingUnsupported = true;
+      return processCommand(message, { signal, intent });
+    }
+    await readErrorBody(error);
+    handleAxiosError(error);
+  }
+
+  // A plain JSON reply is the complete result
+  const contentType = String(res.headers['content-type'] ?? '');
+  if (!isEventStreamType(contentType)) {
+    let text: string;
+    try {
+      text = await readStreamText(res.data);
+    } catch (error) {
+      if (signal?.aborted) throw new BookingAbortedError(error);
+      throw toBookingApiError(error);
+    }
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = text; // Not JSON; fails the contract check below like a malformed stream line
+    }
+    return parseBody(endpoint, body, commandResultEnvelope).data;
+  }
+
+  const progress: CommandStreamProgress = { message: '', bookings: [] };
+  try {
+    for await (const { event, data } of readEventStream(res.data, contentType, signal)) {
+      switch (event) {
+        case 'analysis':
+          progress.analysis = parseBody(endpoint, data, array(intentAnalysisSchema), 'analysis');
+          break;
+        case 'delta':
+        case 'message':
+          progress.message += parseBody(endpoint, data, streamDeltaSchema, 'delta').text;
+          break;
+        case 'booking':
+          progress.bookings = [...progress.bookings, parseBody(endpoint, data, bookingSchema, 'booking')];
+          break;
+        case 'done':
+          return parseBody(endpoint, data, commandResultSchema, 'done');
+        case 'error':
+          throw new BookingApiError(
+            `API request failed: ${parseBody(endpoint, data, streamErrorSchema, 'error').detail ?? 'The command failed.'}`
+          );
+        default:
+          continue; // Unknown events are ignored for forward compatibility
+      }
+      onProgress?.({ ...progress });
+    }
+  } catch (error) {
+    if (signal?.aborted) throw new BookingAbortedError(error);
+    throw toBookingApiError(error);
+  }
+
+  if (signal?.aborted) throw new BookingAbortedError();
+  throw new BookingApiError('The reply was cut off before it was complete. Please try again.');
+}
+
 /** Process a command via NLP */
-export async function processCommand(message: string): Promise<CommandResult> {
+export async function processCommand(message: string, { signal, intent }: CommandOptions = {}): Promise<CommandResult> {
   try {
-    const payload: CommandPayload = { message };
-    const res: AxiosResponse<{ success: boolean; data: CommandResult }> = await apiClient.post('/api/v1/bookings/commands', payload);
-    return res.data.data;
+    const payload: CommandPayload = { message, response_format: 'structured', intent };
+    const res = await apiClient.post('/api/v1/bookings/commands', payload, { signal });
+    return parseResponse(res, commandResultEnvelope).data;
   } catch (error) {
     handleAxiosError(error);
   }
 }
+
+// -----------------------------------------------------------------------------
+// 8) Offline Queue Replay
+// -----------------------------------------------------------------------------
+
+/** Check whether `BASE_URL` answers at all. Any HTTP response counts as reachable. */
+export async function checkConnectivity({ signal }: RequestOptions = {}): Promise<boolean> {
+  try {
+    await apiClient.head('/', { timeout: 3_000, validateStatus: () => true, retry: false, signal });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+let isReplaying = false;
+
+/**
+ * Replay queued mutations in order.
+ * Server rejections are reported as conflicts and dropped; a network failure
+ * stops the pass so the remaining mutations keep their order.
+ * Only one pass runs at a time: resolves with null while another caller's
+ * pass is in progress, so each replay is reported once.
+ */
+export async function replayPendingMutations(): Promise<ReplayReport | null> {
+  if (isReplaying) return null;
+  isReplaying = true;
+  try {
+    return await runReplay();
+  } finally {
+    isReplaying = false;
+  }
+}
+
+async function runReplay(): Promise<ReplayReport> {
+  const queue = await listPendingMutations();
+  const outcomes: ReplayOutcome[] = [];
+
+  for (let i = 0; i < queue.length; i++) {
+    const mutation = queue[i];
+    try {
+      if (mutation.kind === 'create') {
+        const booking = await sendCreateBooking(mutation.payload, mutation.idempotencyKey);
+        outcomes.push({ mutation, status: 'applied', booking });
+      } else if (mutation.kind === 'update') {
+        const booking = await sendUpdateBooking(mutation.bookingId, mutation.changes);
+        outcomes.push({ mutation, status: 'applied', booking });
+      } else {
+        await sendDeleteBooking(mutation.bookingId);
+        outcomes.push({ mutation, status: 'applied' });
+      }
+      await removePendingMutation(mutation.id);
+    } catch (error) {
+      const apiError = toBookingApiError(error);
+      // Unreachable server or signed-out user: keep this and later mutations queued
+      if (isNetworkError(error) || apiError.status === 401) {
+        await updatePendingMutation({
+          ...mutation,
+          attempts: mutation.attempts + 1,
+          lastError: axios.isAxiosError(error) ? error.message : apiError.message,
+        });
+        return { outcomes, remaining: queue.length - i };
+      }
+      const detail = apiError.message.replace('API request failed: ', '');
+      const httpStatus = apiError.status;
+      console.warn(`[Queue] Conflict replaying ${mutation.kind} ${mutation.id}: ${detail}`);
+      outcomes.push({ mutation, status: 'conflict', detail, httpStatus });
+      await removePendingMutation(mutation.id);
+    }
+  }
+
+  return { outcomes, remaining: 0 };
+}
+
+/**
+ * Keep the offline queue draining: replays when the browser reports it is
+ * back online and polls `BASE_URL` while mutations are waiting.
+ * Returns a function that stops the sync loop.
+ */
+export function startOfflineQueueSync(
+  onReport: (report: ReplayReport) => void,
+  pollIntervalMs = 15_000
+): () => void {
+  let stopped = false;
+
+  const attempt = async () => {
+    if (stopped) return;
+    try {
+      const pending = await listPendingMutations();
+      if (pending.length === 0 || !(await checkConnectivity())) return;
+      const report = await replayPendingMutations();
+      if (!stopped && report && report.outcomes.length > 0) onReport(report);
+    } catch (error) {
+      console.error('[Queue] Replay failed:', error);
+    }
+  };
+
+  const handleOnline = () => void attempt();
+  window.addEventListener('online', handleOnline);
+  const timer = window.setInterval(() => void attempt(), pollIntervalMs);
+  void attempt();
+
+  return () => {
+    stopped = true;
+    window.removeEventListener('online', handleOnline);
+    window.clearInterval(timer);
+  };
+}
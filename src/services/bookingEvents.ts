@@ -0,0 +1,188 @@
+/**
+ * bookingEvents.ts
+ *
+ * Live booking change feed, next to `apiClient`.
+ *
+ * Features:
+ * - One shared WebSocket, opened for the first subscriber and closed after the last.
+ * - Authenticates with the access token in the first message, keeping it out of URLs and logs.
+ * - Reconnects with exponential backoff and jitter.
+ * - Runtime validation of incoming events.
+ * - In mock mode, events come straight from the in-browser backend.
+ */
+
+import { Booking, bookingSchema } from './bookingApi';
+import { getAccessToken } from './auth';
+import { BASE_URL, USE_MOCK_API } from './config';
+import { SchemaViolation, identifier, object, optional, string } from './schemas';
+import { subscribeToMockEvents } from './mock';
+
+// -----------------------------------------------------------------------------
+// 1) Types
+// -----------------------------------------------------------------------------
+export type BookingEventType = 'booking.created' | 'booking.updated' | 'booking.deleted';
+
+/** A change pushed by the server */
+export interface BookingEvent {
+  type: BookingEventType;
+  booking_id: string;
+  booking?: Booking;   // Omitted for deletions
+  occurred_at?: string;
+}
+
+export type ConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+type EventListener = (event: BookingEvent) => void;
+type StatusListener = (status: ConnectionStatus) => void;
+
+const EVENT_TYPES: BookingEventType[] = ['booking.created', 'booking.updated', 'booking.deleted'];
+
+const bookingEventSchema = object({
+  type: string(),
+  booking_id: identifier(),
+  booking: optional(bookingSchema),
+  occurred_at: optional(string()),
+}, 'booking event');
+
+// -----------------------------------------------------------------------------
+// 2) Connection State
+// -----------------------------------------------------------------------------
+const EVENTS_PATH = '/api/v1/bookings/events';
+const INITIAL_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 30_000;
+
+const eventListeners = new Set<EventListener>();
+const statusListeners = new Set<StatusListener>();
+
+let socket: WebSocket | null = null;
+let stopMockFeed: (() => void) | null = null;
+let reconnectTimer: number | undefined;
+let attempt = 0;
+let status: ConnectionStatus = 'closed';
+
+function setStatus(next: ConnectionStatus): void {
+  status = next;
+  statusListeners.forEach((listener) => listener(status));
+}
+
+function emit(event: BookingEvent): void {
+  eventListeners.forEach((listener) => listener(event));
+}
+
+function parseEvent(raw: unknown): BookingEvent | null {
+  try {
+    const event = bookingEventSchema.parse(raw, '');
+    if (!EVENT_TYPES.includes(event.type as BookingEventType)) return null;
+    return event as BookingEvent;
+  } catch (error) {
+    if (error instanceof SchemaViolation) {
+      console.warn(`[Events] Ignoring malformed event: ${error.message}`);
+      return null;
+    }
+    throw error;
+  }
+}
+
+function eventsUrl(): string {
+  const url = new URL(EVENTS_PATH, BASE_URL);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+}
+
+/** Delay before the next reconnect: exponential, capped, with full jitter */
+function backoffDelay(): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, INITIAL_BACKOFF_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+// -----------------------------------------------------------------------------
+// 3) Connection Lifecycle
+// -----------------------------------------------------------------------------
+function connect(): void {
+  if (USE_MOCK_API) {
+    stopMockFeed = subscribeToMockEvents((raw) => {
+      const event = parseEvent(raw);
+      if (event) emit(event);
+    });
+    setStatus('open');
+    return;
+  }
+
+  setStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+  const ws = new WebSocket(eventsUrl());
+  socket = ws;
+
+  ws.onopen = () => {
+    const token = getAccessToken();
+    if (token) ws.send(JSON.stringify({ type: 'auth', token }));
+    attempt = 0;
+    setStatus('open');
+    console.log('[Events] Connected');
+  };
+
+  ws.onmessage = (message) => {
+    try {
+      const event = parseEvent(JSON.parse(String(message.data)));
+      if (event) emit(event);
+    } catch (error) {
+      console.warn('[Events] Could not read message:', error);
+    }
+  };
+
+  ws.onclose = () => {
+    if (socket !== ws) return; // Closed on purpose
+    socket = null;
+    const delay = backoffDelay();
+    attempt += 1;
+    setStatus('reconnecting');
+    console.warn(`[Events] Disconnected, retrying in ${delay} ms`);
+    reconnectTimer = window.setTimeout(connect, delay);
+  };
+}
+
+function disconnect(): void {
+  window.clearTimeout(reconnectTimer);
+  stopMockFeed?.();
+  stopMockFeed = null;
+  const ws = socket;
+  socket = null;
+  ws?.close();
+  attempt = 0;
+  setStatus('closed');
+}
+
+// -----------------------------------------------------------------------------
+// 4) Public API
+// -----------------------------------------------------------------------------
+
+/** Receive booking change events. The connection is shared and opened on demand. */
+export function subscribeToBookingEvents(listener: EventListener): () => void {
+  eventListeners.add(listener);
+  if (eventListeners.size === 1) connect();
+  return () => {
+    eventListeners.delete(listener);
+    if (eventListeners.size === 0) disconnect();
+  };
+}
+
+/** Observe the live connection state. The listener is called immediately. */
+export function subscribeToConnectionStatus(listener: StatusListener): () => void {
+  statusListeners.add(listener);
+  listener(status);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+/** Short human-readable description of an event */
+export function describeBookingEvent(event: BookingEvent): string {
+  const who = event.booking ? ` (${event.booking.technician_name}, ${event.booking.profession})` : '';
+  switch (event.type) {
+    case 'booking.created':
+      return `Booking #${event.booking_id} created${who}`;
+    case 'booking.updated':
+      return `Booking #${event.booking_id} updated${who}`;
+    default:
+      return `Booking #${event.booking_id} cancelled`;
+  }
+}
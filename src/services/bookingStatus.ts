@@ -0,0 +1,105 @@
+/**
+ * bookingStatus.ts
+ *
+ * Booking status lifecycle shared by the API client, the mock backend and the UI.
+ *
+ * Features:
+ * - Typed statuses with display labels and chip colours.
+ * - Allowed transitions; completed, cancelled and no-show are final.
+ * - Lenient parsing of server values ("In Progress", "no-show", "canceled").
+ */
+
+import { Schema, SchemaViolation } from './schemas';
+
+// -----------------------------------------------------------------------------
+// 1) Statuses
+// -----------------------------------------------------------------------------
+export const BOOKING_STATUSES = ['scheduled', 'confirmed', 'in_progress', 'completed', 'cancelled', 'no_show'] as const;
+
+export type BookingStatus = (typeof BOOKING_STATUSES)[number];
+
+/** Status given to bookings that arrive without one */
+export const DEFAULT_BOOKING_STATUS: BookingStatus = 'scheduled';
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  scheduled: 'Scheduled',
+  confirmed: 'Confirmed',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No-show',
+};
+
+/** Theme palette colour used for each status chip */
+export const BOOKING_STATUS_COLORS: Record<BookingStatus, 'default' | 'primary' | 'info' | 'warning' | 'success' | 'error'> = {
+  scheduled: 'info',
+  confirmed: 'primary',
+  in_progress: 'warning',
+  completed: 'success',
+  cancelled: 'error',
+  no_show: 'default',
+};
+
+// -----------------------------------------------------------------------------
+// 2) Transitions
+// -----------------------------------------------------------------------------
+const STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  scheduled: ['confirmed', 'in_progress', 'cancelled', 'no_show'],
+  confirmed: ['scheduled', 'in_progress', 'cancelled', 'no_show'],
+  in_progress: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+  no_show: [],
+};
+
+/** Statuses a booking can move to from `status` */
+export function getNextStatuses(status: BookingStatus): BookingStatus[] {
+  return STATUS_TRANSITIONS[status];
+}
+
+/** True when a booking may move from `from` to `to` */
+export function canTransitionStatus(from: BookingStatus, to: BookingStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+/** True for statuses that can no longer change */
+export function isFinalStatus(status: BookingStatus): boolean {
+  return STATUS_TRANSITIONS[status].length === 0;
+}
+
+/** True while the booking still occupies its technician's time */
+export function isActiveStatus(status: BookingStatus): boolean {
+  return status !== 'cancelled' && status !== 'no_show';
+}
+
+// -----------------------------------------------------------------------------
+// 3) Parsing
+// -----------------------------------------------------------------------------
+const STATUS_ALIASES: Record<string, BookingStatus> = {
+  canceled: 'cancelled',
+  noshow: 'no_show',
+  inprogress: 'in_progress',
+  started: 'in_progress',
+  done: 'completed',
+  booked: 'scheduled',
+  pending: 'scheduled',
+};
+
+/** Map a server or user value to a status; null when it is not one */
+export function normalizeBookingStatus(value: unknown): BookingStatus | null {
+  if (typeof value !== 'string') return null;
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  const match = BOOKING_STATUSES.find((status) => status === key);
+  return match ?? STATUS_ALIASES[key.replace(/_/g, '')] ?? null;
+}
+
+/** Booking status field; missing values fall back to `DEFAULT_BOOKING_STATUS` */
+export const bookingStatus = (): Schema<BookingStatus> => ({
+  expected: `one of ${BOOKING_STATUSES.join(', ')}`,
+  parse(value, path) {
+    if (value === undefined || value === null) return DEFAULT_BOOKING_STATUS;
+    const status = normalizeBookingStatus(value);
+    if (!status) throw new SchemaViolation(path, this.expected, value);
+    return status;
+  },
+});
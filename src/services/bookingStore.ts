@@ -0,0 +1,295 @@
+/**
+ * bookingStore.ts
+ *
+ * Client-side cache shared by every component that reads bookings.
+ *
+ * Features:
+ * - Keyed query cache with per-key subscriptions.
+ * - Request de-duplication: concurrent loads of one key share a request.
+ * - Forced loads supersede a running request, so results from before a mutation are dropped.
+ * - Cancellation of loads nobody is watching any more.
+ * - Eviction of entries that have gone unwatched for a while.
+ * - Stale-while-revalidate: cached data is served while a refresh runs.
+ * - Invalidation after mutations (refetches only keys that are being watched).
+ * - Date-range queries, so views load only the bookings they show.
+ * - Merging of live booking events pushed by the server.
+ */
+
+import {
+  Booking,
+  BookingAbortedError,
+  BookingApiError,
+  BookingListParams,
+  BookingPage,
+  getAllBookings,
+  getBookingById,
+  getEveryBooking,
+} from './bookingApi';
+import type { BookingEvent } from './bookingEvents';
+
+// -----------------------------------------------------------------------------
+// 1) Types
+// -----------------------------------------------------------------------------
+export interface QueryState<T> {
+  data?: T;
+  error?: BookingApiError;
+  isFetching: boolean;
+  updatedAt: number;   // Epoch ms of the last successful load, 0 if never
+  isStale: boolean;    // Invalidated since the last load
+}
+
+type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+/** Half-open time range [start, end) */
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+/** How long loaded data counts as fresh before a read triggers a background refresh */
+const STALE_TIME_MS = 30_000;
+/** How long an unwatched entry is kept, so returning to a view is instant */
+const GC_TIME_MS = 5 * 60_000;
+
+const EMPTY_STATE: QueryState<never> = { isFetching: false, updatedAt: 0, isStale: true };
+
+// -----------------------------------------------------------------------------
+// 2) Cache Internals
+// -----------------------------------------------------------------------------
+const entries = new Map<string, QueryState<unknown>>();
+const inflight = new Map<string, Promise<unknown>>();
+const controllers = new Map<string, AbortController>();
+const generations = new Map<string, number>();
+const fetchers = new Map<string, Fetcher<unknown>>();
+const listeners = new Map<string, Set<() => void>>();
+const gcTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function setState<T>(key: string, patch: Partial<QueryState<T>>): void {
+  const prev = entries.get(key) ?? EMPTY_STATE;
+  entries.set(key, { ...prev, ...patch });
+  listeners.get(key)?.forEach((listener) => listener());
+  scheduleGc(key);
+}
+
+/** Drop `key` once it has gone `GC_TIME_MS` without subscribers */
+function scheduleGc(key: string): void {
+  if (listeners.has(key) || gcTimers.has(key)) return;
+  gcTimers.set(key, setTimeout(() => {
+    gcTimers.delete(key);
+    if (listeners.has(key)) return;
+    if (inflight.has(key)) {
+      scheduleGc(key);
+      return;
+    }
+    entries.delete(key);
+    fetchers.delete(key);
+    generations.delete(key);
+  }, GC_TIME_MS));
+}
+
+function toApiError(error: unknown): BookingApiError {
+  return error instanceof BookingApiError
+    ? error
+    : new BookingApiError('An unexpected error occurred.', undefined, error);
+}
+
+// -----------------------------------------------------------------------------
+// 3) Generic Query API
+// -----------------------------------------------------------------------------
+
+/** Current cached state for `key`. Returns a stable object between changes. */
+export function getQueryState<T>(key: string): QueryState<T> {
+  return (entries.get(key) as QueryState<T> | undefined) ?? EMPTY_STATE;
+}
+
+/** Listen for state changes of `key` */
+export function subscribeQuery(key: string, listener: () => void): () => void {
+  let set = listeners.get(key);
+  if (!set) {
+    set = new Set();
+    listeners.set(key, set);
+  }
+  set.add(listener);
+  clearTimeout(gcTimers.get(key));
+  gcTimers.delete(key);
+  return () => {
+    set.delete(listener);
+    if (set.size > 0) return;
+    listeners.delete(key);
+    scheduleGc(key);
+    // Deferred so an immediate re-subscribe (e.g. a remount) keeps the request
+    setTimeout(() => {
+      if (!listeners.has(key)) controllers.get(key)?.abort();
+    }, 0);
+  };
+}
+
+/**
+ * Load `key`, sharing any request already in flight.
+ * Fresh cached data is returned without a request unless `force` is set;
+ * a forced load aborts a running request, which may predate a mutation.
+ */
+export function fetchQuery<T>(key: string, fetcher: Fetcher<T>, force = false): Promise<T> {
+  fetchers.set(key, fetcher as Fetcher<unknown>);
+
+  const pending = inflight.get(key);
+  if (pending && !force) return pending as Promise<T>;
+
+  const state = getQueryState<T>(key);
+  const isFresh = state.data !== undefined && !state.isStale && Date.now() - state.updatedAt < STALE_TIME_MS;
+  if (isFresh && !force) return Promise.resolve(state.data as T);
+
+  controllers.get(key)?.abort();
+  const generation = (generations.get(key) ?? 0) + 1;
+  generations.set(key, generation);
+  // Callers of a superseded request get the result of the one that replaced it
+  const isSuperseded = () => generations.get(key) !== generation;
+  const latest = () => (inflight.get(key) as Promise<T> | undefined) ?? (getQueryState<T>(key).data as T);
+
+  setState<T>(key, { isFetching: true });
+  const controller = new AbortController();
+  controllers.set(key, controller);
+  const request: Promise<T> = fetcher(controller.signal)
+    .then((data) => {
+      if (isSuperseded()) return latest();
+      setState<T>(key, { data, error: undefined, isFetching: false, updatedAt: Date.now(), isStale: false });
+      return data;
+    })
+    .catch((error) => {
+      if (isSuperseded()) return latest();
+      const apiError = toApiError(error);
+      // A cancelled load is not a failure; the data simply stays stale
+      setState<T>(key, apiError instanceof BookingAbortedError
+        ? { isFetching: false }
+        : { error: apiError, isFetching: false });
+      throw apiError;
+    })
+    .finally(() => {
+      if (isSuperseded()) return;
+      inflight.delete(key);
+      controllers.delete(key);
+    });
+
+  inflight.set(key, request);
+  return request;
+}
+
+/** Replace cached data for `key` without a request (e.g. after a mutation returned it) */
+export function setQueryData<T>(key: string, updater: T | ((prev: T | undefined) => T | undefined)): void {
+  const prev = getQueryState<T>(key).data;
+  const data = typeof updater === 'function' ? (updater as (prev: T | undefined) => T | undefined)(prev) : updater;
+  setState<T>(key, { data, updatedAt: Date.now(), isStale: false });
+}
+
+/**
+ * Mark every key starting with `prefix` as stale. Keys that are currently
+ * watched are refetched in the background; the rest reload on next read.
+ */
+export function invalidateQueries(prefix: string): void {
+  Array.from(entries.keys())
+    .filter((key) => key.startsWith(prefix))
+    .forEach((key) => {
+      setState(key, { isStale: true });
+      const fetcher = fetchers.get(key);
+      if (fetcher && listeners.has(key)) {
+        fetchQuery(key, fetcher, true).catch((error) => console.error(`[Store] Refetch of ${key} failed:`, error));
+      }
+    });
+}
+
+// -----------------------------------------------------------------------------
+// 4) Booking Queries
+// -----------------------------------------------------------------------------
+export const BOOKINGS_KEY = 'bookings';
+export const bookingKey = (bookingId: string) => `bookings/${bookingId}`;
+export const bookingPageKey = (params: BookingListParams) =>
+  `${BOOKINGS_KEY}?${Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join('&')}`;
+
+export const bookingRangeKey = ({ start, end }: DateRange) => `${BOOKINGS_KEY}@${start.toISOString()}/${end.toISOString()}`;
+
+// Ranges behind each cached range key, for merging live events
+const ranges = new Map<string, DateRange>();
+
+/** Ranges still in the cache; those whose entries were evicted are forgotten */
+function cachedRanges(): Map<string, DateRange> {
+  ranges.forEach((_, key) => {
+    if (!entries.has(key)) ranges.delete(key);
+  });
+  return ranges;
+}
+
+const overlapsRange = (booking: Booking, { start, end }: DateRange) =>
+  Date.parse(booking.start_time) < end.getTime() && Date.parse(booking.end_time) > start.getTime();
+
+/** Load the bookings overlapping `range` (cached, de-duplicated) and seed per-booking entries */
+export function loadBookingRange(range: DateRange, force = false): Promise<Booking[]> {
+  const key = bookingRangeKey(range);
+  ranges.set(key, range);
+  return fetchQuery(key, async (signal) => {
+    const bookings = await getEveryBooking({
+      ends_after: range.start.toISOString(),
+      starts_before: range.end.toISOString(),
+      sort_by: 'start_time',
+      sort_order: 'asc',
+    }, undefined, { signal });
+    bookings.forEach((booking) => setQueryData(bookingKey(booking.id), booking));
+    return bookings;
+  }, force);
+}
+
+/** Load one server-side page of bookings (cached per parameter set) */
+export function loadBookingPage(params: BookingListParams, force = false): Promise<BookingPage> {
+  return fetchQuery(bookingPageKey(params), (signal) => getAllBookings(params, { signal }), force);
+}
+
+/**
+ * Load a single booking (cached, de-duplicated).
+ * A cached `null` means the booking is known to have been deleted.
+ */
+export function loadBooking(bookingId: string, force = false): Promise<Booking | null> {
+  return fetchQuery<Booking | null>(bookingKey(bookingId), (signal) => getBookingById(bookingId, { signal }), force);
+}
+
+/** Cached copy of a booking, from its own entry or a loaded range, without fetching */
+export function peekBooking(bookingId: string): Booking | undefined {
+  const own = getQueryState<Booking | null>(bookingKey(bookingId)).data;
+  if (own) return own;
+  for (const key of cachedRanges().keys()) {
+    const match = getQueryState<Booking[]>(key).data?.find((b) => b.id === bookingId);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/** Mark all booking data stale after a create, update or delete */
+export function invalidateBookings(): void {
+  invalidateQueries(BOOKINGS_KEY);
+}
+
+/** Merge a pushed change into the cache without refetching the full list */
+export function applyBookingEvent(event: BookingEvent): void {
+  const { booking, booking_id: bookingId } = event;
+
+  if (event.type === 'booking.deleted') {
+    setQueryData<Booking | null>(bookingKey(bookingId), null);
+  } else if (booking) {
+    setQueryData<Booking | null>(bookingKey(bookingId), booking);
+  }
+
+  // A moved booking can leave one range and enter another
+  cachedRanges().forEach((range, key) => {
+    if (!getQueryState<Booking[]>(key).data) return;
+    setQueryData<Booking[]>(key, (prev = []) => {
+      const others = prev.filter((b) => b.id !== bookingId);
+      if (event.type === 'booking.deleted' || !booking || !overlapsRange(booking, range)) return others;
+      return [...others, booking].sort((a, b) => a.start_time.localeCompare(b.start_time));
+    });
+  });
+
+  // Page membership and totals depend on server-side sorting and filters
+  invalidateQueries(`${BOOKINGS_KEY}?`);
+}
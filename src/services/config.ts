@@ -0,0 +1,23 @@
+/**
+ * config.ts
+ *
+ * Environment configuration shared by the API services.
+ */
+
+/** Backend base URL */
+export const BASE_URL: string = import.meta.env.VITE_BOOKING_API_URL || 'http://127.0.0.1:8000';
+
+/** Whether the backend requires a signed-in user (enables the login screen and token refresh) */
+export const AUTH_ENABLED: boolean = import.meta.env.VITE_AUTH_ENABLED === 'true';
+
+/** Serve API calls from the in-browser mock backend instead of `BASE_URL` */
+export const USE_MOCK_API: boolean = import.meta.env.VITE_USE_MOCK_API === 'true';
+
+/** How many times idempotent requests are retried after a network error, 429 or 5xx */
+export const API_MAX_RETRIES: number = Number(import.meta.env.VITE_API_MAX_RETRIES ?? 3);
+
+/** How long bookings created or cancelled through chat can be undone, in milliseconds (0 disables undo) */
+export const UNDO_GRACE_PERIOD_MS: number = Number(import.meta.env.VITE_UNDO_GRACE_PERIOD_MS ?? 10000);
+
+/** Ask for streamed chat replies; falls back to request/response when the server does not support it */
+export const STREAM_COMMANDS: boolean = import.meta.env.VITE_STREAM_COMMANDS !== 'false';
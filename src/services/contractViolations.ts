@@ -0,0 +1,48 @@
+/**
+ * contractViolations.ts
+ *
+ * In-memory log of API responses that failed schema validation, for the dev overlay.
+ */
+
+export interface ContractViolation {
+  id: number;
+  endpoint: string;
+  field: string;
+  expected: string;
+  received: string;
+  occurredAt: Date;
+}
+
+type ViolationListener = (violations: ContractViolation[]) => void;
+
+const MAX_VIOLATIONS = 50;
+
+let violations: ContractViolation[] = [];
+let nextId = 1;
+const listeners = new Set<ViolationListener>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener(violations));
+}
+
+export function recordContractViolation(entry: Omit<ContractViolation, 'id' | 'occurredAt'>): void {
+  violations = [{ ...entry, id: nextId++, occurredAt: new Date() }, ...violations].slice(0, MAX_VIOLATIONS);
+  notify();
+}
+
+export function clearContractViolations(): void {
+  violations = [];
+  notify();
+}
+
+export function getContractViolations(): ContractViolation[] {
+  return violations;
+}
+
+/** Subscribe to the violation log */
+export function subscribeToContractViolations(listener: ViolationListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,270 @@
+/**
+ * conversationHistory.ts
+ *
+ * Local persistence for chat conversations.
+ *
+ * Features:
+ * - IndexedDB-backed storage, so conversations survive reloads.
+ * - Rename, delete and resume past conversations.
+ * - Rehydration of stored messages: ISO timestamps back to `Date`s and
+ *   booking payloads re-validated against the booking schema.
+ * - Change subscriptions for the conversation list.
+ */
+
+import { Booking, BookingCreatePayload, IntentAnalysis, bookingSchema } from './bookingApi';
+import { CONVERSATIONS_STORE, runTransaction } from './localDb';
+import { SchemaViolation } from './schemas';
+import { ConflictReport } from '../utils/bookingConflicts';
+
+// -----------------------------------------------------------------------------
+// 1) Chat Message Types
+// -----------------------------------------------------------------------------
+export type MessageType = 'info' | 'success' | 'error' | 'warning';
+
+/** Ambiguous command the user is asked to disambiguate */
+export interface Clarification {
+  command: string;                // Original text the user sent
+  candidates: IntentAnalysis[];
+  chosenIntent?: string;          // Recorded once the user picks a candidate
+}
+
+export type BatchLineStatus = 'pending' | 'running' | 'success' | 'error' | 'cancelled';
+
+/** One line of a multi-line command batch */
+export interface BatchLine {
+  command: string;
+  status: BatchLineStatus;
+  intent?: string;
+  message?: string;        // Reply or error message
+}
+
+/** Progress and results of a multi-line command batch */
+export interface BatchRun {
+  lines: BatchLine[];
+  isRetry?: boolean;       // Re-run of the failed lines of an earlier batch
+  retried?: boolean;       // Failed lines have been re-run in a later batch
+}
+
+/** Booking held back because its technician is already booked at that time */
+export interface BookingConflict {
+  payload: BookingCreatePayload;
+  report: ConflictReport;
+  resolved?: boolean;      // Recorded once the user books a suggestion or books anyway
+}
+
+/** Body of an assistant/system message */
+export interface SystemMessageContent {
+  intent: string;
+  message: string;
+  bookings?: Booking[];
+  booking?: Booking;
+  legacyParsed?: boolean;  // Bookings were scraped from a text listing
+  clarification?: Clarification;
+  analysis?: IntentAnalysis[];   // NLP analysis of the command this message answers
+  batch?: BatchRun;
+  conflict?: BookingConflict;
+}
+
+export interface UserChatMessage {
+  id: string;
+  role: 'user';
+  content: string;
+  timestamp: Date;
+}
+
+export interface SystemChatMessage {
+  id: string;
+  role: 'system';
+  content: SystemMessageContent;
+  timestamp: Date;
+  type: MessageType;
+}
+
+export type ChatMessage = UserChatMessage | SystemChatMessage;
+
+/** List entry for a stored conversation */
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messageCount: number;
+}
+
+/** A stored conversation with its messages */
+export interface Conversation extends ConversationSummary {
+  messages: ChatMessage[];
+  analysis: IntentAnalysis[];   // Latest NLP analysis shown next to the chat
+}
+
+/** Shape written to IndexedDB; dates are kept as ISO strings */
+interface StoredConversation {
+  id: string;
+  title: string;
+  titleEdited: boolean;   // Set once the user renames it; stops automatic titles
+  createdAt: string;
+  updatedAt: string;
+  messages: StoredChatMessage[];
+  analysis: IntentAnalysis[];
+}
+
+/** A message as stored or exported, with an ISO timestamp */
+export type StoredChatMessage = Omit<UserChatMessage, 'timestamp'> & { timestamp: string }
+  | Omit<SystemChatMessage, 'timestamp'> & { timestamp: string };
+
+type ConversationListener = (conversations: ConversationSummary[]) => void;
+
+const UNTITLED = 'New conversation';
+const TITLE_LENGTH = 48;
+
+// -----------------------------------------------------------------------------
+// 2) Serialization
+// -----------------------------------------------------------------------------
+/** Serializable copy of a message */
+export function toStoredMessage(message: ChatMessage): StoredChatMessage {
+  return { ...message, timestamp: message.timestamp.toISOString() };
+}
+
+function reviveDate(value: unknown): Date {
+  const date = new Date(typeof value === 'string' || typeof value === 'number' ? value : NaN);
+  return Number.isNaN(date.getTime()) ? new Date(0) : date;
+}
+
+function reviveBooking(value: unknown): Booking | undefined {
+  if (value === undefined || value === null) return undefined;
+  try {
+    return bookingSchema.parse(value, 'booking');
+  } catch (error) {
+    if (!(error instanceof SchemaViolation)) throw error;
+    console.warn(`[History] Dropping stored booking: ${error.message}`);
+    return undefined;
+  }
+}
+
+/** Rebuild a message read from storage; returns null for unreadable entries */
+export function reviveMessage(raw: StoredChatMessage): ChatMessage | null {
+  if (!raw || typeof raw.id !== 'string') return null;
+  const timestamp = reviveDate(raw.timestamp);
+
+  if (raw.role === 'user') {
+    return typeof raw.content === 'string' ? { id: raw.id, role: 'user', content: raw.content, timestamp } : null;
+  }
+  if (raw.role !== 'system' || !raw.content) return null;
+
+  const { bookings, booking, ...rest } = raw.content;
+  const content: SystemMessageContent = { ...rest, message: rest.message ?? '' };
+  const revivedBooking = reviveBooking(booking);
+  if (revivedBooking) content.booking = revivedBooking;
+  if (Array.isArray(bookings)) {
+    content.bookings = bookings.map(reviveBooking).filter((b): b is Booking => b !== undefined);
+  }
+  return { id: raw.id, role: 'system', content, timestamp, type: raw.type ?? 'info' };
+}
+
+function toSummary(stored: StoredConversation): ConversationSummary {
+  return {
+    id: stored.id,
+    title: stored.title,
+    createdAt: reviveDate(stored.createdAt),
+    updatedAt: reviveDate(stored.updatedAt),
+    messageCount: stored.messages.length,
+  };
+}
+
+/** Title from the first thing the user asked */
+function deriveTitle(messages: ChatMessage[]): string {
+  const first = messages.find((m): m is UserChatMessage => m.role === 'user');
+  if (!first) return UNTITLED;
+  const text = first.content.replace(/\s+/g, ' ').trim();
+  return text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text;
+}
+
+// -----------------------------------------------------------------------------
+// 3) Change Notifications
+// -----------------------------------------------------------------------------
+const listeners = new Set<ConversationListener>();
+
+async function notifyListeners(): Promise<void> {
+  if (listeners.size === 0) return;
+  const conversations = await listConversations();
+  listeners.forEach((listener) => listener(conversations));
+}
+
+/** Subscribe to the conversation list. The listener is called immediately. */
+export function subscribeToConversations(listener: ConversationListener): () => void {
+  listeners.add(listener);
+  listConversations()
+    .then((conversations) => {
+      if (listeners.has(listener)) listener(conversations);
+    })
+    .catch((error) => console.error('[History] Failed to read conversations:', error));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// -----------------------------------------------------------------------------
+// 4) Conversation Operations
+// -----------------------------------------------------------------------------
+function readStored(id: string): Promise<StoredConversation | undefined> {
+  return runTransaction<StoredConversation | undefined>(CONVERSATIONS_STORE, 'readonly', (store) => store.get(id));
+}
+
+/** List conversations, most recently active first */
+export async function listConversations(): Promise<ConversationSummary[]> {
+  const all = await runTransaction<StoredConversation[]>(CONVERSATIONS_STORE, 'readonly', (store) =>
+    store.index('updatedAt').getAll()
+  );
+  return all.reverse().map(toSummary);
+}
+
+/** Load a conversation with its messages rehydrated; null if it does not exist */
+export async function loadConversation(id: string): Promise<Conversation | null> {
+  const stored = await readStored(id);
+  if (!stored) return null;
+  const messages = (stored.messages ?? [])
+    .map(reviveMessage)
+    .filter((m): m is ChatMessage => m !== null);
+  return { ...toSummary(stored), messages, analysis: stored.analysis ?? [] };
+}
+
+/** Create or update a conversation. Untitled conversations are named after their first question. */
+export async function saveConversation(
+  id: string,
+  messages: ChatMessage[],
+  analysis: IntentAnalysis[] = []
+): Promise<void> {
+  const existing = await readStored(id);
+  const now = new Date().toISOString();
+  const stored: StoredConversation = {
+    id,
+    title: existing?.titleEdited ? existing.title : deriveTitle(messages),
+    titleEdited: existing?.titleEdited ?? false,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    messages: messages.map(toStoredMessage),
+    analysis,
+  };
+  await runTransaction(CONVERSATIONS_STORE, 'readwrite', (store) => store.put(stored));
+  await notifyListeners();
+}
+
+/** Give a conversation a custom title */
+export async function renameConversation(id: string, title: string): Promise<void> {
+  const existing = await readStored(id);
+  if (!existing) return;
+  const trimmed = title.trim();
+  const renamed: StoredConversation = {
+    ...existing,
+    title: trimmed || deriveTitle((await loadConversation(id))?.messages ?? []),
+    titleEdited: trimmed.length > 0,
+  };
+  await runTransaction(CONVERSATIONS_STORE, 'readwrite', (store) => store.put(renamed));
+  await notifyListeners();
+}
+
+/** Permanently remove a conversation */
+export async function deleteConversation(id: string): Promise<void> {
+  await runTransaction(CONVERSATIONS_STORE, 'readwrite', (store) => store.delete(id));
+  await notifyListeners();
+}
@@ -0,0 +1,101 @@
+/**
+ * eventStream.ts
+ *
+ * Readers for streamed HTTP response bodies.
+ *
+ * Features:
+ * - Server-Sent Events (`text/event-stream`): `event:` / `data:` frames.
+ * - Newline-delimited JSON (`application/x-ndjson`): one `{ "event", "data" }` object per line.
+ * - Event data is decoded as JSON when possible, otherwise passed on as text.
+ */
+
+/** One decoded event from a streamed body */
+export interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+const SSE_TYPE = 'text/event-stream';
+const NDJSON_TYPES = ['application/x-ndjson', 'application/jsonl', 'application/json-seq'];
+
+/** True for content types this module can read incrementally */
+export function isEventStreamType(contentType: string | undefined): boolean {
+  const type = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  return type === SSE_TYPE || NDJSON_TYPES.includes(type);
+}
+
+function decodeData(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/** Decode one SSE frame; null for comment-only frames */
+function parseSseFrame(frame: string): StreamEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+  frame.split(/\r?\n/).forEach((line) => {
+    if (!line || line.startsWith(':')) return;
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+    if (field === 'event') event = value;
+    else if (field === 'data') data.push(value);
+  });
+  return data.length > 0 ? { event, data: decodeData(data.join('\n')) } : null;
+}
+
+function parseNdjsonLine(line: string): StreamEvent | null {
+  if (!line.trim()) return null;
+  const value = decodeData(line);
+  if (typeof value === 'object' && value !== null && 'event' in value) {
+    const { event, data } = value as { event: unknown; data?: unknown };
+    return { event: String(event), data };
+  }
+  return { event: 'message', data: value };
+}
+
+/**
+ * Yield events from a streamed body as they arrive.
+ * Stopping the iteration (or aborting `signal`) cancels the underlying stream.
+ */
+export async function* readEventStream(
+  stream: ReadableStream<Uint8Array>,
+  contentType: string | undefined,
+  signal?: AbortSignal
+): AsyncGenerator<StreamEvent> {
+  const isSse = (contentType ?? '').toLowerCase().startsWith(SSE_TYPE);
+  const separator = isSse ? /\r?\n\r?\n/ : /\r?\n/;
+  const parse = isSse ? parseSseFrame : parseNdjsonLine;
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const cancel = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', cancel);
+
+  let buffer = '';
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const parts = buffer.split(separator);
+      buffer = done ? '' : parts.pop() ?? '';
+      for (const part of parts) {
+        const event = parse(part);
+        if (event) yield event;
+      }
+      if (done) return;
+    }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    cancel();
+  }
+}
+
+/** Read a whole streamed body as text */
+export async function readStreamText(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
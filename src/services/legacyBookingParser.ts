@@ -0,0 +1,78 @@
+/**
+ * legacyBookingParser.ts
+ *
+ * Fallback for servers that only describe bookings as text, one per line:
+ *
+ *   - ID: 12, Technician: Ana Souza, Profession: Plumber, Start: 2025-02-10T09:00:00, Status: Confirmed
+ *
+ * Only used when a listing response carries no structured `bookings` array.
+ */
+
+import type { Booking } from './bookingApi';
+import { DEFAULT_BOOKING_STATUS, normalizeBookingStatus } from './bookingStatus';
+
+type TextField = Exclude<keyof Booking, 'status'>;
+
+const FIELD_KEYS: Record<string, TextField | 'status'> = {
+  id: 'id',
+  customer: 'customer_name',
+  technician: 'technician_name',
+  profession: 'profession',
+  start: 'start_time',
+  end: 'end_time',
+  status: 'status',
+};
+
+// Splits on ", <Key>:" only, so commas inside names or values stay intact
+const FIELD_PATTERN = new RegExp(
+  `(?:^|,\\s*)(${Object.keys(FIELD_KEYS).join('|')})\\s*:\\s*`,
+  'gi'
+);
+
+function toISO(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString();
+}
+
+function parseLine(line: string): Booking | null {
+  const body = line.replace(/^\s*[-*•]\s*/, '');
+  const matches = Array.from(body.matchAll(FIELD_PATTERN));
+  if (matches.length === 0 || matches[0].index !== 0) return null;
+
+  const booking: Booking = {
+    id: '',
+    customer_name: '',
+    technician_name: '',
+    profession: '',
+    start_time: '',
+    end_time: '',
+    status: DEFAULT_BOOKING_STATUS,
+  };
+
+  matches.forEach((match, i) => {
+    const key = FIELD_KEYS[match[1].toLowerCase()];
+    const valueStart = (match.index ?? 0) + match[0].length;
+    const valueEnd = i + 1 < matches.length ? matches[i + 1].index : body.length;
+    const value = body.slice(valueStart, valueEnd).trim();
+    if (key === 'status') {
+      booking.status = normalizeBookingStatus(value) ?? DEFAULT_BOOKING_STATUS;
+    } else {
+      booking[key] = key === 'start_time' || key === 'end_time' ? toISO(value) : value;
+    }
+  });
+
+  return booking.id ? booking : null;
+}
+
+/** True when `message` looks like a legacy text listing */
+export function hasLegacyBookingList(message: string | undefined): boolean {
+  return !!message && /^\s*[-*•]\s*ID\s*:/im.test(message);
+}
+
+/** Extract bookings from a legacy text listing; unknown fields are left empty */
+export function parseLegacyBookingList(message: string): Booking[] {
+  return message
+    .split('\n')
+    .map(parseLine)
+    .filter((booking): booking is Booking => booking !== null);
+}
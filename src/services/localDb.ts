@@ -0,0 +1,60 @@
+/**
+ * localDb.ts
+ *
+ * Shared IndexedDB database for data that must survive reloads.
+ *
+ * Stores:
+ * - `pendingMutations`: offline queue of booking changes (see offlineQueue.ts).
+ * - `conversations`: chat history (see conversationHistory.ts).
+ */
+
+const DB_NAME = 'technician-booking';
+const DB_VERSION = 2;
+
+export const PENDING_MUTATIONS_STORE = 'pendingMutations';
+export const CONVERSATIONS_STORE = 'conversations';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PENDING_MUTATIONS_STORE)) {
+          const store = db.createObjectStore(PENDING_MUTATIONS_STORE, { keyPath: 'id' });
+          store.createIndex('seq', 'seq', { unique: true });
+        }
+        if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+          const store = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/** Run one request against `storeName` and resolve once its transaction commits */
+export function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = work(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
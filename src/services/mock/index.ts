@@ -0,0 +1,453 @@
+/**
+ * mock/index.ts
+ *
+ * In-browser stand-in for the FastAPI booking service, plugged into axios as a
+ * custom adapter when `VITE_USE_MOCK_API=true`.
+ *
+ * Implements:
+ * - GET/POST   /api/v1/bookings (GET paginates, sorts and filters; POST honours Idempotency-Key)
+ * - GET/PATCH/DELETE /api/v1/bookings/{id}
+ * - POST       /api/v1/bookings/{id}/reopen (undo a cancellation)
+ * - POST       /api/v1/bookings/commands (rule-based intent parser)
+ * - POST       /api/v1/bookings/commands/stream (same reply, as Server-Sent Events)
+ * - POST       /api/v1/auth/login, /api/v1/auth/refresh
+ * - Booking change events, delivered in-process instead of over a WebSocket
+ */
+
+import { AxiosAdapter, AxiosError, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { addHours, format, parseISO } from 'date-fns';
+import type { Booking, BookingCreatePayload, BookingListParams, CommandResult } from '../bookingApi';
+import {
+  BOOKING_STATUS_LABELS,
+  DEFAULT_BOOKING_STATUS,
+  canTransitionStatus,
+  isActiveStatus,
+  isFinalStatus,
+  normalizeBookingStatus,
+} from '../bookingStatus';
+import { paginateBookings } from '../../utils/paginateBookings';
+import { delay } from '../../utils/delay';
+import { MOCK_TECHNICIANS, createSeedBookings } from './seed';
+import { parseCommand } from './intentParser';
+
+// -----------------------------------------------------------------------------
+// 1) In-Memory State
+// -----------------------------------------------------------------------------
+const MOCK_LATENCY_MS = 250;
+const STREAM_CHUNK_DELAY_MS = 40;
+const STREAM_WORDS_PER_CHUNK = 3;
+/** Top-intent confidence below which mutations are not executed (matches the client's clarification threshold) */
+const AMBIGUOUS_CONFIDENCE = 0.6;
+
+let bookings: Booking[] = createSeedBookings();
+let nextId = bookings.length + 1;
+/** Bookings created per `Idempotency-Key`, so a replayed create returns the original */
+let createdByKey = new Map<string, Booking>();
+
+/** Restore the seed data set */
+export function resetMockBackend(): void {
+  bookings = createSeedBookings();
+  nextId = bookings.length + 1;
+  createdByKey = new Map();
+}
+
+type MockEventListener = (event: unknown) => void;
+const eventListeners = new Set<MockEventListener>();
+
+/** Receive booking change events, shaped like the server's WebSocket messages */
+export function subscribeToMockEvents(listener: MockEventListener): () => void {
+  eventListeners.add(listener);
+  return () => {
+    eventListeners.delete(listener);
+  };
+}
+
+function emitMockEvent(type: 'booking.created' | 'booking.updated' | 'booking.deleted', booking: Booking): void {
+  const event = {
+    type,
+    booking_id: booking.id,
+    booking: type === 'booking.deleted' ? undefined : booking,
+    occurred_at: new Date().toISOString(),
+  };
+  // Deliver after the HTTP response, like a real push channel would
+  setTimeout(() => eventListeners.forEach((listener) => listener(event)), MOCK_LATENCY_MS);
+}
+
+class MockHttpError extends Error {
+  public status: number;
+
+  constructor(status: number, detail: string) {
+    super(detail);
+    this.status = status;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// 2) Booking Operations
+// -----------------------------------------------------------------------------
+function findBooking(id: string): Booking {
+  const booking = bookings.find((b) => b.id === id);
+  if (!booking) throw new MockHttpError(404, `Booking with ID ${id} not found.`);
+  return booking;
+}
+
+function findOverlap(candidate: Pick<Booking, 'technician_name' | 'start_time' | 'end_time'>, ignoreId?: string): Booking | undefined {
+  const start = Date.parse(candidate.start_time);
+  const end = Date.parse(candidate.end_time);
+  // Cancelled and no-show bookings no longer hold the slot
+  return bookings.find(
+    (b) =>
+      b.id !== ignoreId &&
+      isActiveStatus(b.status) &&
+      b.technician_name.toLowerCase() === candidate.technician_name.toLowerCase() &&
+      Date.parse(b.start_time) < end &&
+      start < Date.parse(b.end_time)
+  );
+}
+
+function createMockBooking(payload: Partial<BookingCreatePayload>, idempotencyKey?: string): Booking {
+  const existing = idempotencyKey ? createdByKey.get(idempotencyKey) : undefined;
+  if (existing) return existing;
+
+  const missing = (['customer_name', 'technician_name', 'profession', 'start_time'] as const).filter(
+    (field) => !payload[field]
+  );
+  if (missing.length > 0) {
+    throw new MockHttpError(422, `Missing required fields: ${missing.join(', ')}.`);
+  }
+  const start = parseISO(payload.start_time as string);
+  if (Number.isNaN(start.getTime())) {
+    throw new MockHttpError(422, 'start_time must be an ISO date-time.');
+  }
+
+  const booking: Booking = {
+    id: String(nextId++),
+    customer_name: payload.customer_name as string,
+    technician_name: payload.technician_name as string,
+    profession: payload.profession as string,
+    start_time: start.toISOString(),
+    end_time: addHours(start, 1).toISOString(),
+    status: DEFAULT_BOOKING_STATUS,
+  };
+
+  const overlap = findOverlap(booking);
+  if (overlap) {
+    throw new MockHttpError(
+      409,
+      `${booking.technician_name} is already booked from ${format(parseISO(overlap.start_time), 'MMM dd HH:mm')} to ${format(parseISO(overlap.end_time), 'HH:mm')}.`
+    );
+  }
+
+  bookings = [...bookings, booking].sort((a, b) => a.start_time.localeCompare(b.start_time));
+  if (idempotencyKey) createdByKey.set(idempotencyKey, booking);
+  emitMockEvent('booking.created', booking);
+  return booking;
+}
+
+function updateMockBooking(id: string, changes: Partial<Booking>): Booking {
+  const current = findBooking(id);
+  const next: Booking = { ...current };
+
+  (['technician_name', 'profession'] as const).forEach((field) => {
+    if (changes[field] !== undefined) {
+      if (!String(changes[field]).trim()) throw new MockHttpError(422, `${field} cannot be empty.`);
+      next[field] = String(changes[field]).trim();
+    }
+  });
+
+  if (changes.start_time !== undefined) {
+    const start = parseISO(String(changes.start_time));
+    if (Number.isNaN(start.getTime())) throw new MockHttpError(422, 'start_time must be an ISO date-time.');
+    const duration = Date.parse(current.end_time) - Date.parse(current.start_time);
+    next.start_time = start.toISOString();
+    next.end_time = new Date(start.getTime() + duration).toISOString();
+  }
+  if (changes.end_time !== undefined) {
+    const end = parseISO(String(changes.end_time));
+    if (Number.isNaN(end.getTime())) throw new MockHttpError(422, 'end_time must be an ISO date-time.');
+    next.end_time = end.toISOString();
+  }
+  if (Date.parse(next.end_time) <= Date.parse(next.start_time)) {
+    throw new MockHttpError(422, 'end_time must be after start_time.');
+  }
+  if (changes.status !== undefined && changes.status !== current.status) {
+    const status = normalizeBookingStatus(changes.status);
+    if (!status) throw new MockHttpError(422, `Unknown status "${String(changes.status)}".`);
+    if (!canTransitionStatus(current.status, status)) {
+      throw new MockHttpError(
+        409,
+        `Booking ${id} cannot change from ${BOOKING_STATUS_LABELS[current.status]} to ${BOOKING_STATUS_LABELS[status]}.`
+      );
+    }
+    next.status = status;
+  }
+
+  const overlap = isActiveStatus(next.status) ? findOverlap(next, id) : undefined;
+  if (overlap) {
+    throw new MockHttpError(409, `${next.technician_name} is already booked at that time (booking ${overlap.id}).`);
+  }
+
+  bookings = bookings.map((b) => (b.id === id ? next : b)).sort((a, b) => a.start_time.localeCompare(b.start_time));
+  emitMockEvent('booking.updated', next);
+  return next;
+}
+
+function reopenMockBooking(id: string, requested: unknown): Booking {
+  const current = findBooking(id);
+  if (current.status !== 'cancelled') {
+    throw new MockHttpError(409, `Booking ${id} is ${BOOKING_STATUS_LABELS[current.status]}, not Cancelled.`);
+  }
+  const status = requested === undefined ? DEFAULT_BOOKING_STATUS : normalizeBookingStatus(requested);
+  if (!status || !isActiveStatus(status) || isFinalStatus(status)) {
+    throw new MockHttpError(422, `A cancelled booking cannot be reopened as "${String(requested)}".`);
+  }
+
+  const next: Booking = { ...current, status };
+  const overlap = findOverlap(next, id);
+  if (overlap) {
+    throw new MockHttpError(409, `${next.technician_name} has been booked at that time since (booking ${overlap.id}).`);
+  }
+
+  bookings = bookings.map((b) => (b.id === id ? next : b));
+  emitMockEvent('booking.updated', next);
+  return next;
+}
+
+function deleteMockBooking(id: string): Booking {
+  const booking = findBooking(id);
+  bookings = bookings.filter((b) => b.id !== id);
+  emitMockEvent('booking.deleted', booking);
+  return booking;
+}
+
+function formatLegacyLine(b: Booking): string {
+  return `- ID: ${b.id}, Technician: ${b.technician_name}, Profession: ${b.profession}, Start: ${b.start_time}, Status: ${BOOKING_STATUS_LABELS[b.status]}`;
+}
+
+// -----------------------------------------------------------------------------
+// 3) Command Processing
+// -----------------------------------------------------------------------------
+function processMockCommand(message: string, structured: boolean, intentOverride?: string): CommandResult {
+  const parsed = parseCommand(message, intentOverride);
+  const base = { success: true, intent: parsed.intent as string, analysis: parsed.analysis };
+
+  // Like the real backend, don't act on a change the user may not have meant
+  const isMutation = parsed.intent === 'create_booking' || parsed.intent === 'cancel_booking';
+  if (isMutation && parsed.analysis[0].confidence < AMBIGUOUS_CONFIDENCE) {
+    return { ...base, success: false };
+  }
+
+  switch (parsed.intent) {
+    case 'create_booking': {
+      const technician = parsed.technicianName;
+      if (!technician && !parsed.profession) {
+        return { ...base, success: false, message: 'Which technician or profession would you like to book?' };
+      }
+      if (!parsed.startTime) {
+        return { ...base, success: false, message: 'When should the booking start? Try "tomorrow at 10am".' };
+      }
+      const booking = createMockBooking({
+        customer_name: parsed.customerName ?? 'Walk-in Customer',
+        technician_name: technician ?? pickFreeTechnician(parsed.profession as string, parsed.startTime),
+        profession: parsed.profession ?? 'General',
+        start_time: parsed.startTime.toISOString(),
+      });
+      return {
+        ...base,
+        message: `Booking created: ${booking.technician_name} (${booking.profession}) on ${format(parseISO(booking.start_time), 'MMM dd, yyyy HH:mm')}. ID: ${booking.id}`,
+        booking,
+      };
+    }
+    case 'cancel_booking': {
+      if (!parsed.bookingId) {
+        return { ...base, success: false, message: 'Which booking should I cancel? Please include its ID.' };
+      }
+      // Cancelling keeps the record, like the real backend
+      const booking = updateMockBooking(parsed.bookingId, { status: 'cancelled' });
+      return { ...base, message: `Booking ${booking.id} has been canceled.`, booking };
+    }
+    case 'get_booking': {
+      if (!parsed.bookingId) {
+        return { ...base, success: false, message: 'Please include the booking ID you want to look up.' };
+      }
+      const booking = findBooking(parsed.bookingId);
+      return { ...base, message: `Booking ${booking.id}:\n${formatLegacyLine(booking)}`, booking };
+    }
+    case 'list_bookings': {
+      if (structured) {
+        return { ...base, message: `Found ${bookings.length} bookings.`, bookings };
+      }
+      if (bookings.length === 0) return { ...base, message: 'There are no bookings.' };
+      return { ...base, message: `Here are all bookings:\n${bookings.map(formatLegacyLine).join('\n')}` };
+    }
+    case 'analyze_bookings':
+      return { ...base, message: `There are ${bookings.length} bookings in the system.` };
+    default:
+      return {
+        ...base,
+        success: false,
+        message: "Sorry, I didn't understand that. Try \"book a plumber tomorrow at 10am\" or \"list bookings\".",
+      };
+  }
+}
+
+/** Stream a reply the way the real endpoint does: analysis, text deltas, bookings, then the full result */
+function toEventStream(result: CommandResult): ReadableStream<Uint8Array> {
+  const words = (result.message ?? '').match(/\S+\s*/g) ?? [];
+  const deltas: string[] = [];
+  for (let i = 0; i < words.length; i += STREAM_WORDS_PER_CHUNK) {
+    deltas.push(words.slice(i, i + STREAM_WORDS_PER_CHUNK).join(''));
+  }
+  const frames: [string, unknown][] = [
+    ['analysis', result.analysis ?? []],
+    ...deltas.map((text): [string, unknown] => ['delta', { text }]),
+    ...(result.bookings ?? []).map((booking): [string, unknown] => ['booking', booking]),
+    ['done', result],
+  ];
+
+  const encoder = new TextEncoder();
+  let index = 0;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (index >= frames.length) {
+        controller.close();
+        return;
+      }
+      await delay(STREAM_CHUNK_DELAY_MS);
+      const [event, data] = frames[index++];
+      controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+    },
+  });
+}
+
+function pickFreeTechnician(profession: string, start: Date): string {
+  const end = addHours(start, 1);
+  const candidates = MOCK_TECHNICIANS.filter((t) => t.profession === profession).map((t) => t.name);
+  const free = candidates.find(
+    (name) => !findOverlap({ technician_name: name, start_time: start.toISOString(), end_time: end.toISOString() })
+  );
+  if (!free) throw new MockHttpError(409, `No ${profession} is available at that time.`);
+  return free;
+}
+
+// -----------------------------------------------------------------------------
+// 4) Routing
+// -----------------------------------------------------------------------------
+type RouteResult = { status: number; data: unknown; headers?: Record<string, string> };
+
+function route(
+  method: string,
+  path: string,
+  body: Record<string, unknown>,
+  query: Record<string, unknown>,
+  idempotencyKey?: string
+): RouteResult {
+  const segments = path.replace(/\/+$/, '').split('/').filter(Boolean);
+
+  if (segments.length === 0) return { status: 200, data: { status: 'ok', mock: true } };
+
+  if (segments[0] === 'api' && segments[1] === 'v1' && segments[2] === 'auth') {
+    const token = `mock-${Date.now()}`;
+    if (segments[3] === 'login' && method === 'post') {
+      if (!body.username || !body.password) throw new MockHttpError(401, 'Invalid username or password.');
+      return { status: 200, data: { access_token: token, refresh_token: `${token}-refresh` } };
+    }
+    if (segments[3] === 'refresh' && method === 'post') {
+      return { status: 200, data: { access_token: token, refresh_token: `${token}-refresh` } };
+    }
+  }
+
+  if (segments[0] === 'api' && segments[1] === 'v1' && segments[2] === 'bookings') {
+    const [, , , id] = segments;
+
+    if (id === 'commands' && segments[4] === 'stream' && method === 'post') {
+      const result = processMockCommand(
+        String(body.message ?? ''),
+        body.response_format === 'structured',
+        typeof body.intent === 'string' ? body.intent : undefined
+      );
+      return { status: 200, data: toEventStream(result), headers: { 'content-type': 'text/event-stream' } };
+    }
+    if (id === 'commands' && method === 'post') {
+      return { status: 200, data: { success: true, data: processMockCommand(
+        String(body.message ?? ''),
+        body.response_format === 'structured',
+        typeof body.intent === 'string' ? body.intent : undefined
+      ) } };
+    }
+    if (!id && method === 'get') {
+      const params: BookingListParams = {
+        ...query,
+        page: query.page ? Number(query.page) : 1,
+        page_size: query.page_size ? Number(query.page_size) : 50,
+        status: normalizeBookingStatus(query.status) ?? undefined,
+      };
+      return { status: 200, data: { success: true, data: paginateBookings([...bookings], params) } };
+    }
+    if (!id && method === 'post') return { status: 201, data: { success: true, data: createMockBooking(body, idempotencyKey) } };
+    if (id && segments[4] === 'reopen' && method === 'post') {
+      return { status: 200, data: { success: true, data: reopenMockBooking(id, body.status) } };
+    }
+    if (id && method === 'get') return { status: 200, data: { success: true, data: findBooking(id) } };
+    if (id && method === 'patch') return { status: 200, data: { success: true, data: updateMockBooking(id, body) } };
+    if (id && method === 'delete') return { status: 200, data: { success: true, data: deleteMockBooking(id) } };
+  }
+
+  throw new MockHttpError(404, 'Not Found');
+}
+
+// -----------------------------------------------------------------------------
+// 5) Axios Adapter
+// -----------------------------------------------------------------------------
+function relativePath(config: InternalAxiosRequestConfig): string {
+  const url = new URL(config.url ?? '/', 'http://mock.local');
+  return url.pathname;
+}
+
+/** Axios adapter that answers requests from the in-memory mock backend */
+export const mockAdapter: AxiosAdapter = async (config) => {
+  try {
+    await delay(MOCK_LATENCY_MS, config.signal as AbortSignal | undefined);
+  } catch {
+    throw new CanceledError(undefined, undefined, config);
+  }
+
+  const method = (config.method ?? 'get').toLowerCase();
+  const body = typeof config.data === 'string' && config.data ? JSON.parse(config.data) : config.data ?? {};
+
+  let result: RouteResult;
+  try {
+    const idempotencyKey = config.headers?.get('Idempotency-Key');
+    result = route(
+      method,
+      relativePath(config),
+      body,
+      config.params ?? {},
+      typeof idempotencyKey === 'string' ? idempotencyKey : undefined
+    );
+  } catch (error) {
+    if (!(error instanceof MockHttpError)) throw error;
+    result = { status: error.status, data: { detail: error.message } };
+  }
+
+  const response: AxiosResponse = {
+    data: result.data,
+    status: result.status,
+    statusText: String(result.status),
+    headers: result.headers ?? {},
+    config,
+    request: {},
+  };
+
+  const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+  if (!validateStatus(result.status)) {
+    throw new AxiosError(
+      `Request failed with status code ${result.status}`,
+      result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      {},
+      response
+    );
+  }
+  return response;
+};
@@ -0,0 +1,129 @@
+/**
+ * intentParser.ts
+ *
+ * Rule-based stand-in for the backend NLP: scores each intent by keyword and
+ * entity matches and extracts the entities a booking command needs.
+ */
+
+import { parseNaturalDate } from '../../utils/naturalDate';
+import { MOCK_PROFESSIONS, MOCK_TECHNICIANS } from './seed';
+
+export type MockIntent =
+  | 'create_booking'
+  | 'cancel_booking'
+  | 'get_booking'
+  | 'list_bookings'
+  | 'analyze_bookings'
+  | 'unknown';
+
+export interface IntentAnalysis {
+  intent: MockIntent;
+  confidence: number;
+  assessment: string;
+}
+
+export interface ParsedCommand {
+  intent: MockIntent;
+  analysis: IntentAnalysis[];
+  bookingId?: string;
+  technicianName?: string;
+  profession?: string;
+  customerName?: string;
+  startTime?: Date;
+}
+
+const KEYWORDS: Record<Exclude<MockIntent, 'unknown'>, string[]> = {
+  create_booking: ['book', 'schedule', 'reserve', 'appointment', 'hire', 'need', 'send'],
+  cancel_booking: ['cancel', 'delete', 'remove', 'drop', 'call off'],
+  get_booking: ['details', 'detail', 'find', 'lookup', 'look up', 'status', 'what is', 'show booking'],
+  list_bookings: ['list', 'all', 'bookings', 'upcoming', 'show', 'my'],
+  analyze_bookings: ['analyze', 'analyse', 'analytics', 'stats', 'statistics', 'report', 'summary'],
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function containsWord(text: string, word: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(word)}\\b`, 'i').test(text);
+}
+
+function extractEntities(message: string): Omit<ParsedCommand, 'intent' | 'analysis'> {
+  const lower = message.toLowerCase();
+
+  const technician =
+    MOCK_TECHNICIANS.find((t) => lower.includes(t.name.toLowerCase())) ??
+    MOCK_TECHNICIANS.find((t) => containsWord(message, t.name.split(' ')[0]));
+
+  const profession =
+    MOCK_PROFESSIONS.find((p) => lower.includes(p.toLowerCase())) ??
+    MOCK_PROFESSIONS.find((p) => containsWord(message, p.split(' ')[0]));
+
+  const idMatch = message.match(/(?:booking\s*(?:id)?\s*#?|#|\bid\s*:?\s*)(\d+)\b/i);
+  const customerMatch = message.match(/\bfor\s+([A-Z][\p{L}'-]+(?:\s+[A-Z][\p{L}'-]+)*)/u);
+  const when = parseNaturalDate(message);
+
+  return {
+    bookingId: idMatch?.[1],
+    technicianName: technician?.name,
+    profession: profession ?? technician?.profession,
+    customerName: customerMatch?.[1],
+    startTime: when?.date,
+  };
+}
+
+/** Score every intent for `message` and return them ranked, with extracted entities */
+export function parseCommand(message: string, intentOverride?: string): ParsedCommand {
+  const entities = extractEntities(message);
+  if (intentOverride && intentOverride in KEYWORDS) {
+    const intent = intentOverride as MockIntent;
+    return { ...entities, intent, analysis: [{ intent, confidence: 1, assessment: 'Chosen by the user.' }] };
+  }
+
+  const scores: { intent: MockIntent; score: number; reasons: string[] }[] = [];
+
+  (Object.keys(KEYWORDS) as (keyof typeof KEYWORDS)[]).forEach((intent) => {
+    const matched = KEYWORDS[intent].filter((keyword) => containsWord(message, keyword));
+    const reasons = matched.length > 0 ? [`keywords: ${matched.join(', ')}`] : [];
+    let score = matched.length * 2;
+
+    if (intent === 'create_booking') {
+      if (entities.technicianName || entities.profession) {
+        score += 1.5;
+        reasons.push(`service: ${entities.technicianName ?? entities.profession}`);
+      }
+      if (entities.startTime) {
+        score += 1.5;
+        reasons.push('date/time mentioned');
+      }
+    }
+    if ((intent === 'cancel_booking' || intent === 'get_booking') && entities.bookingId) {
+      score += 2;
+      reasons.push(`booking id ${entities.bookingId}`);
+    }
+    if (intent === 'list_bookings' && entities.bookingId) {
+      score -= 1; // A specific id points at a single booking
+    }
+
+    if (score > 0) scores.push({ intent, score, reasons });
+  });
+
+  if (scores.length === 0) {
+    return {
+      ...entities,
+      intent: 'unknown',
+      analysis: [{ intent: 'unknown', confidence: 0.2, assessment: 'No booking-related keywords recognized.' }],
+    };
+  }
+
+  const total = scores.reduce((sum, entry) => sum + entry.score, 0);
+  const analysis = scores
+    .map(({ intent, score, reasons }) => ({
+      intent,
+      confidence: Math.round((score / total) * 100) / 100,
+      assessment: reasons.length > 0 ? `Matched ${reasons.join('; ')}.` : 'Weak match.',
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  return { ...entities, intent: analysis[0].intent, analysis };
+}
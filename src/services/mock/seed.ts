@@ -0,0 +1,89 @@
+/**
+ * seed.ts
+ *
+ * Seed data for the in-browser mock backend.
+ */
+
+import { addDays, addHours, set, startOfDay } from 'date-fns';
+import type { Booking } from '../bookingApi';
+import type { BookingStatus } from '../bookingStatus';
+
+export interface MockTechnician {
+  name: string;
+  profession: string;
+}
+
+export const MOCK_TECHNICIANS: MockTechnician[] = [
+  { name: 'Nicolas Woollett', profession: 'Plumber' },
+  { name: 'Ana Souza', profession: 'Plumber' },
+  { name: 'Franky Flay', profession: 'Electrician' },
+  { name: 'João Pereira', profession: 'Electrician' },
+  { name: 'Griselda Dickson', profession: 'Welder' },
+  { name: 'Maria Chen', profession: 'HVAC Technician' },
+  { name: 'Liam O\'Brien', profession: 'Carpenter' },
+  { name: 'Sofia Rossi', profession: 'Gardener' },
+];
+
+export const MOCK_PROFESSIONS: string[] = Array.from(new Set(MOCK_TECHNICIANS.map((t) => t.profession)));
+
+const CUSTOMERS = [
+  'Alice Martins',
+  'Bruno Costa',
+  'Carla Gomes',
+  'David Smith',
+  'Emma Johnson',
+  'Felipe Araújo',
+  'Grace Lee',
+  'Hiroshi Tanaka',
+  'Isabel Fernández',
+  'Jack Wilson',
+];
+
+/** Deterministic PRNG so every reload starts from the same data set */
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state |= 0;
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Status a booking would have reached by `now`: past ones are done (every fifth a no-show), some future ones confirmed */
+function seedStatus(start: Date, end: Date, now: Date, index: number): BookingStatus {
+  if (end <= now) return index % 5 === 0 ? 'no_show' : 'completed';
+  if (start <= now) return 'in_progress';
+  return index % 3 === 0 ? 'confirmed' : 'scheduled';
+}
+
+/** Bookings spread from one week ago to two weeks ahead, one hour each, during working hours */
+export function createSeedBookings(now: Date = new Date(), count = 30): Booking[] {
+  const random = mulberry32(42);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const bookings: Booking[] = [];
+  const taken = new Set<string>();
+
+  for (let i = 0; bookings.length < count && i < count * 10; i++) {
+    const technician = pick(MOCK_TECHNICIANS);
+    const day = addDays(startOfDay(now), Math.floor(random() * 21) - 7);
+    const start = set(day, { hours: 8 + Math.floor(random() * 9), minutes: 0, seconds: 0, milliseconds: 0 });
+    const slotKey = `${technician.name}|${start.toISOString()}`;
+    if (taken.has(slotKey)) continue;
+    taken.add(slotKey);
+
+    const end = addHours(start, 1);
+    bookings.push({
+      id: String(bookings.length + 1),
+      customer_name: pick(CUSTOMERS),
+      technician_name: technician.name,
+      profession: technician.profession,
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      status: seedStatus(start, end, now, bookings.length),
+    });
+  }
+
+  return bookings.sort((a, b) => a.start_time.localeCompare(b.start_time));
+}
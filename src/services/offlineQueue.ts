@@ -0,0 +1,138 @@
+/**
+ * offlineQueue.ts
+ *
+ * Persistent outbound queue for booking mutations that could not reach the backend.
+ *
+ * Features:
+ * - IndexedDB-backed storage, so queued work survives reloads.
+ * - Insertion-ordered reads (replay happens in the order mutations were made).
+ * - Change subscriptions for components that display pending work.
+ */
+
+import type { BookingCreatePayload, BookingUpdatePayload } from './bookingApi';
+import { BOOKING_STATUS_LABELS } from './bookingStatus';
+import { PENDING_MUTATIONS_STORE, runTransaction } from './localDb';
+
+// -----------------------------------------------------------------------------
+// 1) Types
+// -----------------------------------------------------------------------------
+
+/** A create mutation waiting to be sent */
+export interface PendingCreateMutation {
+  kind: 'create';
+  payload: BookingCreatePayload;
+  idempotencyKey: string;   // Same key as the failed request, so the server applies the create once
+}
+
+/** A delete mutation waiting to be sent */
+export interface PendingDeleteMutation {
+  kind: 'delete';
+  bookingId: string;
+}
+
+/** An update (reschedule or status change) mutation waiting to be sent */
+export interface PendingUpdateMutation {
+  kind: 'update';
+  bookingId: string;
+  changes: BookingUpdatePayload;
+}
+
+export type PendingMutationBody = PendingCreateMutation | PendingDeleteMutation | PendingUpdateMutation;
+
+/** A mutation stored in the queue */
+export type PendingMutation = PendingMutationBody & {
+  id: string;
+  seq: number;        // Monotonic insertion order
+  queuedAt: string;   // ISO string
+  attempts: number;
+  lastError?: string;
+};
+
+type QueueListener = (mutations: PendingMutation[]) => void;
+
+// -----------------------------------------------------------------------------
+// 2) Change Notifications
+// -----------------------------------------------------------------------------
+const listeners = new Set<QueueListener>();
+
+async function notifyListeners(): Promise<void> {
+  if (listeners.size === 0) return;
+  const mutations = await listPendingMutations();
+  listeners.forEach((listener) => listener(mutations));
+}
+
+/** Subscribe to queue changes. The listener is called immediately with the current queue. */
+export function subscribeToQueue(listener: QueueListener): () => void {
+  listeners.add(listener);
+  listPendingMutations()
+    .then((mutations) => {
+      if (listeners.has(listener)) listener(mutations);
+    })
+    .catch((error) => console.error('[Queue] Failed to read pending mutations:', error));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// -----------------------------------------------------------------------------
+// 3) Queue Operations
+// -----------------------------------------------------------------------------
+
+/** List pending mutations in the order they were queued */
+export async function listPendingMutations(): Promise<PendingMutation[]> {
+  const all = await runTransaction<PendingMutation[]>(PENDING_MUTATIONS_STORE, 'readonly', (store) =>
+    store.index('seq').getAll()
+  );
+  return all;
+}
+
+/** Append a mutation to the end of the queue */
+export async function enqueueMutation(body: PendingMutationBody): Promise<PendingMutation> {
+  const mutation: PendingMutation = {
+    ...body,
+    id: crypto.randomUUID(),
+    seq: 0,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  // Read the last seq and add in one readwrite transaction, so concurrent enqueues cannot share a seq
+  await runTransaction(PENDING_MUTATIONS_STORE, 'readwrite', (store) => {
+    const request = store.index('seq').openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const last = request.result?.value as PendingMutation | undefined;
+      mutation.seq = (last?.seq ?? 0) + 1;
+      store.add(mutation);
+    };
+    return request;
+  });
+  console.log(`[Queue] Queued ${mutation.kind} mutation ${mutation.id}`);
+  await notifyListeners();
+  return mutation;
+}
+
+/** Persist changes to a queued mutation (e.g. attempt counters) */
+export async function updatePendingMutation(mutation: PendingMutation): Promise<void> {
+  await runTransaction(PENDING_MUTATIONS_STORE, 'readwrite', (store) => store.put(mutation));
+  await notifyListeners();
+}
+
+/** Drop a mutation from the queue once it has been applied or rejected */
+export async function removePendingMutation(id: string): Promise<void> {
+  await runTransaction(PENDING_MUTATIONS_STORE, 'readwrite', (store) => store.delete(id));
+  await notifyListeners();
+}
+
+/** Human-readable one-line summary of a queued mutation */
+export function describeMutation(mutation: PendingMutationBody): string {
+  if (mutation.kind === 'create') {
+    const { technician_name, profession, customer_name } = mutation.payload;
+    return `Book ${technician_name} (${profession}) for ${customer_name}`;
+  }
+  if (mutation.kind === 'update') {
+    const { status } = mutation.changes;
+    if (status === 'cancelled') return `Cancel booking #${mutation.bookingId}`;
+    if (status) return `Mark booking #${mutation.bookingId} as ${BOOKING_STATUS_LABELS[status].toLowerCase()}`;
+    return `Reschedule booking #${mutation.bookingId}`;
+  }
+  return `Cancel booking #${mutation.bookingId}`;
+}
@@ -0,0 +1,166 @@
+/**
+ * schemas.ts
+ *
+ * Minimal runtime schemas for validating API responses.
+ *
+ * Each schema parses an `unknown` value into a typed one or throws a
+ * `SchemaViolation` naming the offending field path (e.g. `data[3].status`).
+ */
+
+// -----------------------------------------------------------------------------
+// 1) Core Types
+// -----------------------------------------------------------------------------
+export interface Schema<T> {
+  /** Short description of the expected shape, used in error messages */
+  expected: string;
+  parse(value: unknown, path: string): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/** Thrown when a value does not match its schema */
+export class SchemaViolation extends Error {
+  public path: string;
+  public expected: string;
+  public received: string;
+
+  constructor(path: string, expected: string, value: unknown) {
+    const received = describeValue(value);
+    super(`Expected ${expected} at "${path}", received ${received}`);
+    this.name = 'SchemaViolation';
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return value.length > 40 ? `string "${value.slice(0, 40)}…"` : `string "${value}"`;
+  if (typeof value === 'object') return 'object';
+  return `${typeof value} ${String(value)}`;
+}
+
+// -----------------------------------------------------------------------------
+// 2) Primitive Schemas
+// -----------------------------------------------------------------------------
+export const string = (): Schema<string> => ({
+  expected: 'string',
+  parse(value, path) {
+    if (typeof value !== 'string') throw new SchemaViolation(path, this.expected, value);
+    return value;
+  },
+});
+
+export const number = (): Schema<number> => ({
+  expected: 'number',
+  parse(value, path) {
+    if (typeof value !== 'number' || Number.isNaN(value)) throw new SchemaViolation(path, this.expected, value);
+    return value;
+  },
+});
+
+export const boolean = (): Schema<boolean> => ({
+  expected: 'boolean',
+  parse(value, path) {
+    if (typeof value !== 'boolean') throw new SchemaViolation(path, this.expected, value);
+    return value;
+  },
+});
+
+/** Identifier that may arrive as a string or a number; always parsed to a string */
+export const identifier = (): Schema<string> => ({
+  expected: 'string or number id',
+  parse(value, path) {
+    if (typeof value === 'string' && value.length > 0) return value;
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    throw new SchemaViolation(path, this.expected, value);
+  },
+});
+
+/** Date-time string parseable by `Date` */
+export const dateTime = (): Schema<string> => ({
+  expected: 'ISO date-time string',
+  parse(value, path) {
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      throw new SchemaViolation(path, this.expected, value);
+    }
+    return value;
+  },
+});
+
+// -----------------------------------------------------------------------------
+// 3) Composite Schemas
+// -----------------------------------------------------------------------------
+export const optional = <T>(inner: Schema<T>): Schema<T | undefined> => ({
+  expected: `${inner.expected} (optional)`,
+  parse(value, path) {
+    return value === undefined || value === null ? undefined : inner.parse(value, path);
+  },
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  expected: `array of ${item.expected}`,
+  parse(value, path) {
+    if (!Array.isArray(value)) throw new SchemaViolation(path, this.expected, value);
+    return value.map((entry, index) => item.parse(entry, `${path}[${index}]`));
+  },
+});
+
+type Shape = Record<string, Schema<unknown>>;
+type ShapeType<S extends Shape> = {
+  [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+};
+
+/** Object with the given fields. Unknown fields are passed through untouched. */
+export const object = <S extends Shape>(shape: S, name = 'object'): Schema<ShapeType<S>> => ({
+  expected: name,
+  parse(value, path) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaViolation(path, this.expected, value);
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...source };
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key].parse(source[key], path ? `${path}.${key}` : key);
+      if (parsed === undefined) {
+        delete result[key];
+      } else {
+        result[key] = parsed;
+      }
+    }
+    return result as ShapeType<S>;
+  },
+});
+
+/**
+ * First schema that accepts the value wins. When both reject it, the
+ * violation that got deeper into the value is reported, since that branch
+ * was most likely the intended shape.
+ */
+export const oneOf = <A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> => ({
+  expected: `${first.expected} or ${second.expected}`,
+  parse(value, path) {
+    try {
+      return first.parse(value, path);
+    } catch (firstError) {
+      if (!(firstError instanceof SchemaViolation)) throw firstError;
+      try {
+        return second.parse(value, path);
+      } catch (secondError) {
+        if (!(secondError instanceof SchemaViolation)) throw secondError;
+        if (firstError.path === path && secondError.path === path) {
+          throw new SchemaViolation(path, this.expected, value);
+        }
+        throw secondError.path.length > firstError.path.length ? secondError : firstError;
+      }
+    }
+  },
+});
+
+/** Standard `{ success, data }` response envelope */
+export const envelope = <T>(data: Schema<T>): Schema<{ success: boolean; data: T }> =>
+  object({ success: boolean(), data }, 'response envelope') as Schema<{ success: boolean; data: T }>;
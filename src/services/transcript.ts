@@ -0,0 +1,314 @@
+/**
+ * transcript.ts
+ *
+ * Export, import and replay of chat transcripts, for attaching conversations
+ * to support tickets and reproducing NLP issues.
+ *
+ * Features:
+ * - JSON export that round-trips: messages with their intents, NLP analysis
+ *   and booking payloads.
+ * - Markdown export that reads well in a ticket.
+ * - Validated JSON import.
+ * - Replay of the user messages against `processCommand`, paired with the
+ *   replies recorded in the transcript for comparison. Multi-line batches
+ *   are replayed line by line.
+ */
+
+import { format } from 'date-fns';
+import {
+  Booking,
+  BookingApiError,
+  CommandResult,
+  IntentAnalysis,
+  isMutationIntent,
+  processCommand,
+} from './bookingApi';
+import {
+  BatchLine,
+  ChatMessage,
+  StoredChatMessage,
+  SystemMessageContent,
+  reviveMessage,
+  toStoredMessage,
+} from './conversationHistory';
+import { BOOKING_STATUS_LABELS } from './bookingStatus';
+import { isBatchInput, runBatch, splitBatchCommands } from './batchCommands';
+import { SchemaViolation, array, number, object, optional, string } from './schemas';
+
+// -----------------------------------------------------------------------------
+// 1) Types
+// -----------------------------------------------------------------------------
+export const TRANSCRIPT_FORMAT = 'technician-booking-transcript';
+export const TRANSCRIPT_VERSION = 1;
+
+export interface Transcript {
+  title: string;
+  exportedAt: Date;
+  messages: ChatMessage[];
+  analysis: IntentAnalysis[];
+}
+
+/** Shape of an exported JSON file */
+interface TranscriptFile {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  title: string;
+  exportedAt: string;
+  messages: StoredChatMessage[];
+  analysis: IntentAnalysis[];
+}
+
+/** Thrown when an imported file is not a readable transcript */
+export class TranscriptFormatError extends Error {
+  public originalError?: unknown;
+
+  constructor(message: string, originalError?: unknown) {
+    super(message);
+    this.name = 'TranscriptFormatError';
+    this.originalError = originalError;
+  }
+}
+
+/** One user command of a transcript and its replies, before and after replay */
+export interface ReplayStep {
+  command: string;
+  original: SystemMessageContent[];   // Replies recorded in the transcript
+  status: 'pending' | 'done' | 'error' | 'skipped';
+  replayed?: CommandResult;
+  replayedBatch?: BatchLine[];        // Set instead of `replayed` for multi-line commands
+  error?: string;
+  skipReason?: string;
+}
+
+export interface ReplayOptions {
+  signal?: AbortSignal;
+  includeMutations?: boolean;   // Replay commands that created or cancelled bookings
+  onStep?: (index: number, step: ReplayStep) => void;
+}
+
+const transcriptFileSchema = object({
+  format: string(),
+  version: number(),
+  title: optional(string()),
+  exportedAt: optional(string()),
+  messages: array(object({ id: string(), role: string() }, 'message')),
+  analysis: optional(array<IntentAnalysis>(object({
+    intent: string(),
+    confidence: number(),
+    assessment: string(),
+  }, 'intent analysis'))),
+}, 'transcript');
+
+// -----------------------------------------------------------------------------
+// 2) Export
+// -----------------------------------------------------------------------------
+
+/** File name for an export, e.g. "cancel-booking-12-2026-10-19.json" */
+export function transcriptFileName(title: string, extension: 'json' | 'md', now: Date = new Date()): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'conversation';
+  return `${slug}-${format(now, 'yyyy-MM-dd')}.${extension}`;
+}
+
+/** Serialize a transcript as JSON that `parseTranscript` reads back */
+export function exportTranscriptJson(transcript: Transcript): string {
+  const file: TranscriptFile = {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    title: transcript.title,
+    exportedAt: transcript.exportedAt.toISOString(),
+    messages: transcript.messages.map(toStoredMessage),
+    analysis: transcript.analysis,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const escapeCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+function bookingTable(bookings: Booking[]): string[] {
+  return [
+    '| ID | Technician | Profession | Customer | Start | End | Status |',
+    '|---|---|---|---|---|---|---|',
+    ...bookings.map((b) =>
+      `| ${[b.id, b.technician_name, b.profession, b.customer_name, b.start_time, b.end_time, BOOKING_STATUS_LABELS[b.status]].map((v) => escapeCell(v ?? '')).join(' | ')} |`
+    ),
+  ];
+}
+
+const describeAnalysis = (analysis: IntentAnalysis[]) =>
+  analysis.map((a) => `\`${a.intent}\` ${Math.round(a.confidence * 100)}%`).join(', ');
+
+/** Render a transcript as Markdown, with intents, analysis and booking payloads */
+export function exportTranscriptMarkdown(transcript: Transcript): string {
+  const lines = [`# ${transcript.title}`, '', `_Exported ${format(transcript.exportedAt, 'yyyy-MM-dd HH:mm')}_`, ''];
+
+  transcript.messages.forEach((message) => {
+    const time = format(message.timestamp, 'yyyy-MM-dd HH:mm:ss');
+    if (message.role === 'user') {
+      lines.push(`### User · ${time}`, '', ...message.content.split('\n').map((line) => `> ${line}`), '');
+      return;
+    }
+
+    const { content } = message;
+    lines.push(`### Assistant · ${time}`, '', `- Intent: \`${content.intent}\` (${message.type})`);
+    if (content.analysis?.length) lines.push(`- Analysis: ${describeAnalysis(content.analysis)}`);
+    if (content.clarification?.chosenIntent) lines.push(`- Clarified as: \`${content.clarification.chosenIntent}\``);
+    lines.push('');
+    if (content.message) lines.push(content.message, '');
+    if (content.batch) {
+      lines.push(...content.batch.lines.map((line) =>
+        `- [${line.status}] ${line.command}${line.message ? `: ${line.message.replace(/\n/g, ' ')}` : ''}`
+      ), '');
+    }
+    const bookings = content.bookings ?? (content.booking ? [content.booking] : []);
+    if (bookings.length > 0) lines.push(...bookingTable(bookings), '');
+  });
+
+  if (transcript.analysis.length > 0) {
+    lines.push('## Latest analysis', '', ...transcript.analysis.map((a) =>
+      `- \`${a.intent}\` ${Math.round(a.confidence * 100)}%: ${a.assessment}`
+    ), '');
+  }
+  return lines.join('\n');
+}
+
+// -----------------------------------------------------------------------------
+// 3) Import
+// -----------------------------------------------------------------------------
+
+/** Read an exported JSON transcript. Throws `TranscriptFormatError` for anything else. */
+export function parseTranscript(json: string): Transcript {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new TranscriptFormatError('The file is not valid JSON.', error);
+  }
+
+  try {
+    const file = transcriptFileSchema.parse(raw, '');
+    if (file.format !== TRANSCRIPT_FORMAT) {
+      throw new TranscriptFormatError('The file is not a chat transcript.');
+    }
+    if (file.version > TRANSCRIPT_VERSION) {
+      throw new TranscriptFormatError(`Transcript version ${file.version} is newer than this app supports.`);
+    }
+    const exportedAt = new Date(file.exportedAt ?? '');
+    return {
+      title: file.title || 'Imported conversation',
+      exportedAt: Number.isNaN(exportedAt.getTime()) ? new Date() : exportedAt,
+      messages: (file.messages as StoredChatMessage[])
+        .map(reviveMessage)
+        .filter((m): m is ChatMessage => m !== null),
+      analysis: file.analysis ?? [],
+    };
+  } catch (error) {
+    if (error instanceof SchemaViolation) {
+      throw new TranscriptFormatError(`The transcript is malformed: ${error.message}`, error);
+    }
+    throw error;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// 4) Replay
+// -----------------------------------------------------------------------------
+
+/** Pair each user message with the replies that followed it */
+export function getReplaySteps(transcript: Transcript): ReplayStep[] {
+  const steps: ReplayStep[] = [];
+  transcript.messages.forEach((message) => {
+    if (message.role === 'user') {
+      const isSlash = message.content.trimStart().startsWith('/');
+      steps.push({
+        command: message.content,
+        original: [],
+        status: isSlash ? 'skipped' : 'pending',
+        skipReason: isSlash ? 'Slash commands do not go through NLP.' : undefined,
+      });
+    } else if (steps.length > 0) {
+      steps[steps.length - 1].original.push(message.content);
+    }
+  });
+  return steps;
+}
+
+/** True when the recorded replies show the command, or any line of a batch, changed bookings */
+export function isMutatingStep(step: ReplayStep): boolean {
+  return step.original.some((content) =>
+    isMutationIntent(content.intent) ||
+    !!content.batch?.lines.some((line) => line.intent && isMutationIntent(line.intent))
+  );
+}
+
+const describeBatchLine = (line: BatchLine) =>
+  `line: ${line.command} → ${line.status}${line.intent ? ` (${line.intent})` : ''}` +
+  (line.message ? `: ${line.message.replace(/\n/g, ' ')}` : '');
+
+/** Comparable lines for a recorded reply */
+export function summarizeRecordedReply(original: SystemMessageContent[]): string[] {
+  return original.flatMap((content) => [
+    `intent: ${content.intent}`,
+    ...(content.analysis?.length ? [`analysis: ${describeAnalysis(content.analysis)}`] : []),
+    ...content.message.split('\n'),
+    ...(content.bookings ?? (content.booking ? [content.booking] : [])).map((b) => `booking #${b.id}`),
+    ...(content.batch?.lines.map(describeBatchLine) ?? []),
+  ]);
+}
+
+/** Comparable lines for a replayed batch, in the same form as a recorded batch reply */
+export function summarizeReplayedBatch(lines: BatchLine[]): string[] {
+  return summarizeRecordedReply([{ intent: 'batch', message: '', batch: { lines } }]);
+}
+
+/** Comparable lines for a replayed reply, in the same form as `summarizeRecordedReply` */
+export function summarizeReplayedReply(result: CommandResult): string[] {
+  return [
+    `intent: ${result.intent}`,
+    ...(result.analysis?.length ? [`analysis: ${describeAnalysis(result.analysis)}`] : []),
+    ...(result.message ?? '').split('\n'),
+    ...(result.bookings ?? (result.booking ? [result.booking] : [])).map((b) => `booking #${b.id}`),
+  ];
+}
+
+/**
+ * Send the user messages of a transcript to `processCommand` one by one,
+ * splitting multi-line messages into their batch lines.
+ * Commands that changed bookings are skipped unless `includeMutations` is set.
+ * Stops early when `signal` aborts.
+ */
+export async function replayTranscript(
+  steps: ReplayStep[],
+  { signal, includeMutations = false, onStep }: ReplayOptions = {}
+): Promise<ReplayStep[]> {
+  const results = [...steps];
+  for (let index = 0; index < results.length; index++) {
+    if (signal?.aborted) break;
+    const step = results[index];
+    if (step.status === 'skipped') continue;
+
+    let next: ReplayStep;
+    if (!includeMutations && isMutatingStep(step)) {
+      next = { ...step, status: 'skipped', skipReason: 'Changes bookings; enable replaying changes to include it.' };
+    } else if (isBatchInput(step.command)) {
+      // Each line reports its own failure, so the batch itself does not throw
+      const lines = await runBatch(splitBatchCommands(step.command), () => undefined, { signal });
+      if (signal?.aborted) break;
+      next = { ...step, status: 'done', replayed: undefined, replayedBatch: lines, error: undefined };
+    } else {
+      try {
+        next = { ...step, status: 'done', replayed: await processCommand(step.command, { signal }), error: undefined };
+      } catch (error) {
+        if (signal?.aborted) break;
+        next = {
+          ...step,
+          status: 'error',
+          replayed: undefined,
+          error: error instanceof BookingApiError ? error.message : 'An unexpected error occurred.',
+        };
+      }
+    }
+    results[index] = next;
+    onStep?.(index, next);
+  }
+  return results;
+}
@@ -0,0 +1,106 @@
+import { addDays, addMinutes, parseISO, set, startOfDay } from 'date-fns';
+import type { Booking } from '../services/bookingApi';
+import { isActiveStatus } from '../services/bookingStatus';
+import { TimeSpan, WORK_DAY_END_HOUR, WORK_DAY_START_HOUR } from './technicianSchedule';
+
+// Length the server gives a new booking when only the start is sent
+export const DEFAULT_BOOKING_MINUTES = 60;
+
+const SLOT_STEP_MINUTES = 30;
+const SEARCH_DAYS = 14;
+const SUGGESTION_COUNT = 3;
+
+/** A booking about to be created or moved */
+export interface BookingCandidate {
+  technician_name: string;
+  profession: string;
+  start: Date;
+  end: Date;
+  ignoreId?: string;  // The booking being moved, which cannot clash with itself
+}
+
+/** Known bookings that clash with a candidate, and ways around them */
+export interface ConflictReport {
+  conflicts: Booking[];
+  freeSlots: string[];     // ISO start times when the same technician is free
+  alternatives: string[];  // Technicians of the same profession free at the requested time
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function overlaps(booking: Booking, start: Date, end: Date): boolean {
+  return parseISO(booking.start_time) < end && parseISO(booking.end_time) > start;
+}
+
+/** Active bookings of the candidate's technician that overlap its time */
+export function findConflicts(bookings: Booking[], candidate: BookingCandidate): Booking[] {
+  return bookings
+    .filter((b) =>
+      b.id !== candidate.ignoreId &&
+      isActiveStatus(b.status) &&
+      sameName(b.technician_name, candidate.technician_name) &&
+      overlaps(b, candidate.start, candidate.end)
+    )
+    .sort((a, b) => a.start_time.localeCompare(b.start_time));
+}
+
+/** The next free starts for the candidate's technician, within working hours, after its start */
+export function suggestFreeSlots(bookings: Booking[], candidate: BookingCandidate, count = SUGGESTION_COUNT): Date[] {
+  const duration = Math.max(1, (candidate.end.getTime() - candidate.start.getTime()) / 60000);
+  const slots: Date[] = [];
+  let cursor = addMinutes(candidate.start, SLOT_STEP_MINUTES);
+  const limit = addDays(candidate.start, SEARCH_DAYS);
+
+  while (slots.length < count && cursor < limit) {
+    const dayStart = set(cursor, { hours: WORK_DAY_START_HOUR, minutes: 0, seconds: 0, milliseconds: 0 });
+    const dayEnd = set(cursor, { hours: WORK_DAY_END_HOUR, minutes: 0, seconds: 0, milliseconds: 0 });
+    if (cursor < dayStart) {
+      cursor = dayStart;
+      continue;
+    }
+    const end = addMinutes(cursor, duration);
+    if (end > dayEnd) {
+      cursor = addDays(dayStart, 1);
+      continue;
+    }
+    if (findConflicts(bookings, { ...candidate, start: cursor, end }).length === 0) slots.push(cursor);
+    cursor = addMinutes(cursor, SLOT_STEP_MINUTES);
+  }
+  return slots;
+}
+
+/** Other technicians known for the same profession who are free at the candidate's time */
+export function suggestAlternativeTechnicians(bookings: Booking[], candidate: BookingCandidate): string[] {
+  const technicians = new Set(
+    bookings
+      .filter((b) => sameName(b.profession, candidate.profession) && !sameName(b.technician_name, candidate.technician_name))
+      .map((b) => b.technician_name)
+  );
+  return Array.from(technicians)
+    .filter((name) => findConflicts(bookings, { ...candidate, technician_name: name }).length === 0)
+    .sort()
+    .slice(0, SUGGESTION_COUNT);
+}
+
+/**
+ * Bookings a check of `start`..`end` has to know about: the candidate's days
+ * plus the free-slot search window. Whole days, so the range (and its cache
+ * entry) stays the same while a form's time is edited.
+ */
+export function getConflictSearchRange(start: Date, end: Date): TimeSpan {
+  return { start: startOfDay(start), end: addDays(startOfDay(end), SEARCH_DAYS + 2) };
+}
+
+/** Check a candidate against known bookings; null when it is free */
+export function checkBookingConflicts(bookings: Booking[], candidate: BookingCandidate): ConflictReport | null {
+  if (!candidate.technician_name.trim() || Number.isNaN(candidate.start.getTime()) || !(candidate.end > candidate.start)) {
+    return null;
+  }
+  const conflicts = findConflicts(bookings, candidate);
+  if (conflicts.length === 0) return null;
+  return {
+    conflicts,
+    freeSlots: suggestFreeSlots(bookings, candidate).map((slot) => slot.toISOString()),
+    alternatives: suggestAlternativeTechnicians(bookings, candidate),
+  };
+}
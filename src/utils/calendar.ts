@@ -0,0 +1,129 @@
+import {
+  addDays,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  differenceInMinutes,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  max as maxDate,
+  min as minDate,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import type { Booking } from '../services/bookingApi';
+
+export type CalendarMode = 'day' | 'week' | 'month';
+
+export const SLOT_MINUTES = 30;
+export const SLOTS_PER_DAY = (24 * 60) / SLOT_MINUTES;
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export interface CalendarRange {
+  start: Date;  // Inclusive
+  end: Date;    // Exclusive
+}
+
+/** A booking placed in one day column, with horizontal lanes for overlaps */
+export interface PositionedBooking {
+  booking: Booking;
+  top: number;      // Minutes from the start of the day
+  height: number;   // Minutes, clipped to the day
+  lane: number;
+  lanes: number;    // Lanes in this overlap group
+}
+
+/** Dates shown for the given mode around `date` (month mode pads to whole weeks) */
+export function getCalendarRange(mode: CalendarMode, date: Date): CalendarRange {
+  if (mode === 'day') {
+    const start = startOfDay(date);
+    return { start, end: addDays(start, 1) };
+  }
+  if (mode === 'week') {
+    const start = startOfWeek(date, WEEK_OPTIONS);
+    return { start, end: addDays(start, 7) };
+  }
+  const start = startOfWeek(startOfMonth(date), WEEK_OPTIONS);
+  return { start, end: addDays(endOfWeek(endOfMonth(date), WEEK_OPTIONS), 1) };
+}
+
+/** Every day in a range */
+export function getRangeDays({ start, end }: CalendarRange): Date[] {
+  return eachDayOfInterval({ start, end: addDays(end, -1) });
+}
+
+/** Move one period forward (`step` 1) or back (`step` -1) */
+export function shiftCalendarDate(mode: CalendarMode, date: Date, step: number): Date {
+  if (mode === 'day') return addDays(date, step);
+  if (mode === 'week') return addWeeks(date, step);
+  return addMonths(date, step);
+}
+
+/** Heading for the visible period, e.g. "Mar 3 – 9, 2025" */
+export function describeCalendarRange(mode: CalendarMode, date: Date): string {
+  if (mode === 'day') return format(date, 'EEEE, MMM d, yyyy');
+  if (mode === 'month') return format(date, 'MMMM yyyy');
+  const { start, end } = getCalendarRange(mode, date);
+  const last = addDays(end, -1);
+  return isSameMonth(start, last)
+    ? `${format(start, 'MMM d')} – ${format(last, 'd, yyyy')}`
+    : `${format(start, 'MMM d')} – ${format(last, 'MMM d, yyyy')}`;
+}
+
+/** Bookings that overlap `[start, end)` */
+export function bookingsInRange(bookings: Booking[], { start, end }: CalendarRange): Booking[] {
+  return bookings.filter((b) => parseISO(b.start_time) < end && parseISO(b.end_time) > start);
+}
+
+/**
+ * Place a day's bookings in columns. Bookings that overlap share the width
+ * of their group, each in the first lane that is free.
+ */
+export function layoutDay(bookings: Booking[], day: Date): PositionedBooking[] {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+  const items = bookingsInRange(bookings, { start: dayStart, end: dayEnd })
+    .map((booking) => {
+      const start = maxDate([parseISO(booking.start_time), dayStart]);
+      const end = minDate([parseISO(booking.end_time), dayEnd]);
+      const top = differenceInMinutes(start, dayStart);
+      return { booking, top, bottom: top + Math.max(differenceInMinutes(end, start), SLOT_MINUTES / 2) };
+    })
+    .sort((a, b) => a.top - b.top || b.bottom - a.bottom);
+
+  const positioned: PositionedBooking[] = [];
+  let group: { item: (typeof items)[number]; lane: number }[] = [];
+  let groupEnd = -1;
+  const flush = () => {
+    const lanes = Math.max(...group.map((g) => g.lane)) + 1;
+    group.forEach(({ item, lane }) => {
+      positioned.push({ booking: item.booking, top: item.top, height: item.bottom - item.top, lane, lanes });
+    });
+    group = [];
+  };
+
+  items.forEach((item) => {
+    if (group.length > 0 && item.top >= groupEnd) flush();
+    const laneEnds: number[] = [];
+    group.forEach(({ item: other, lane }) => {
+      laneEnds[lane] = Math.max(laneEnds[lane] ?? -1, other.bottom);
+    });
+    let lane = laneEnds.findIndex((end) => end <= item.top);
+    if (lane === -1) lane = laneEnds.length;
+    group.push({ item, lane });
+    groupEnd = Math.max(groupEnd, item.bottom);
+  });
+  if (group.length > 0) flush();
+  return positioned;
+}
+
+/** Start time of a slot index within a day */
+export function slotToDate(day: Date, slot: number): Date {
+  return addMinutes(startOfDay(day), slot * SLOT_MINUTES);
+}
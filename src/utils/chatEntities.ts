@@ -0,0 +1,162 @@
+/**
+ * chatEntities.ts
+ *
+ * Recognition and autocomplete of the entities dispatchers type into the chat:
+ * technician names, professions, booking IDs and relative dates.
+ * Known values are taken from the loaded bookings.
+ */
+
+import { format } from 'date-fns';
+import type { Booking } from '../services/bookingApi';
+import { findDateExpressions, parseNaturalDate } from './naturalDate';
+
+export type EntityKind = 'technician' | 'profession' | 'booking_id' | 'date';
+
+/** Known values to recognize and suggest */
+export interface EntityLexicon {
+  technicians: string[];
+  professions: string[];
+  bookingIds: string[];
+}
+
+/** A recognized entity in the composer text */
+export interface EntitySpan {
+  kind: EntityKind;
+  start: number;
+  end: number;
+}
+
+/** A completion for the text just before the caret */
+export interface EntitySuggestion {
+  kind: EntityKind;
+  label: string;
+  detail?: string;
+  insert: string;   // Text that replaces `text.slice(from, caret)`
+  from: number;
+}
+
+const DATE_PHRASES = [
+  'today',
+  'tonight',
+  'tomorrow',
+  'tomorrow 9am',
+  'tomorrow noon',
+  'tomorrow 3pm',
+  ...['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].map((day) => `next ${day}`),
+];
+
+const MIN_FRAGMENT_LENGTH = 2;
+const MAX_FRAGMENT_WORDS = 3;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const unique = (values: string[]) =>
+  Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+/** Collect the technicians, professions and IDs that appear in `bookings` */
+export function buildEntityLexicon(bookings: Booking[]): EntityLexicon {
+  return {
+    technicians: unique(bookings.map((b) => b.technician_name)),
+    professions: unique(bookings.map((b) => b.profession)),
+    bookingIds: unique(bookings.map((b) => b.id)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// 1) Recognition
+// -----------------------------------------------------------------------------
+function findNames(text: string, names: string[], kind: EntityKind): EntitySpan[] {
+  // Longest first, so "Ana Souza" wins over a shorter overlapping name
+  return [...names]
+    .sort((a, b) => b.length - a.length)
+    .flatMap((name) =>
+      Array.from(text.matchAll(new RegExp(`\\b${escapeRegExp(name)}\\b`, 'gi')), (match) => ({
+        kind,
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length,
+      }))
+    );
+}
+
+function findBookingIds(text: string, bookingIds: string[]): EntitySpan[] {
+  const known = new Set(bookingIds);
+  return Array.from(text.matchAll(/#(\w+)\b|\b(?:booking|id)\s*:?\s*#?(\w+)\b/gi))
+    .filter((match) => known.has(match[1] ?? match[2]))
+    .map((match) => {
+      const id = match[1] ?? match[2];
+      const start = (match.index ?? 0) + match[0].lastIndexOf(id) - (match[1] ? 1 : 0);
+      return { kind: 'booking_id' as const, start, end: (match.index ?? 0) + match[0].length };
+    });
+}
+
+/** Recognized entities in `text`, ordered and without overlaps */
+export function findEntities(text: string, lexicon: EntityLexicon): EntitySpan[] {
+  const candidates = [
+    ...findNames(text, lexicon.technicians, 'technician'),
+    ...findNames(text, lexicon.professions, 'profession'),
+    ...findBookingIds(text, lexicon.bookingIds),
+    ...findDateExpressions(text).map((span) => ({ ...span, kind: 'date' as const })),
+  ].sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const spans: EntitySpan[] = [];
+  candidates.forEach((span) => {
+    const last = spans[spans.length - 1];
+    if (!last || span.start >= last.end) spans.push(span);
+  });
+  return spans;
+}
+
+// -----------------------------------------------------------------------------
+// 2) Suggestions
+// -----------------------------------------------------------------------------
+function describeDate(phrase: string, now: Date): string | undefined {
+  const match = parseNaturalDate(phrase, now);
+  return match ? format(match.date, 'EEE dd MMM, HH:mm') : undefined;
+}
+
+/** Completions for the word(s) right before `caret`, longest matching fragment first */
+export function suggestEntities(
+  text: string,
+  caret: number,
+  lexicon: EntityLexicon,
+  now: Date = new Date(),
+  limit = 6
+): EntitySuggestion[] {
+  const before = text.slice(0, caret);
+
+  const idMatch = /#(\w*)$/.exec(before);
+  if (idMatch) {
+    const from = caret - idMatch[0].length;
+    return lexicon.bookingIds
+      .filter((id) => id.startsWith(idMatch[1]) && id !== idMatch[1])
+      .slice(0, limit)
+      .map((id) => ({ kind: 'booking_id', label: `#${id}`, insert: `#${id}`, from }));
+  }
+
+  if (/\s$/.test(before)) return [];
+  const words = Array.from(before.matchAll(/\S+/g));
+
+  // Try "souza", then "ana souza", ... so multi-word names complete too
+  for (let count = Math.min(MAX_FRAGMENT_WORDS, words.length); count >= 1; count--) {
+    const from = words[words.length - count].index ?? 0;
+    const fragment = before.slice(from).toLowerCase();
+    if (fragment.length < MIN_FRAGMENT_LENGTH) continue;
+
+    const matches = (values: string[]) =>
+      values.filter((value) => value.toLowerCase().startsWith(fragment) && value.toLowerCase() !== fragment);
+
+    const suggestions: EntitySuggestion[] = [
+      ...matches(lexicon.technicians).map((name) => ({ kind: 'technician' as const, label: name, insert: name, from })),
+      ...matches(lexicon.professions).map((name) => ({ kind: 'profession' as const, label: name, insert: name, from })),
+      ...matches(DATE_PHRASES).map((phrase) => ({
+        kind: 'date' as const,
+        label: phrase,
+        detail: describeDate(phrase, now),
+        insert: phrase,
+        from,
+      })),
+    ];
+    if (suggestions.length > 0) return suggestions.slice(0, limit);
+  }
+  return [];
+}
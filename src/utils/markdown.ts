@@ -0,0 +1,233 @@
+/**
+ * markdown.ts
+ *
+ * A small Markdown parser for assistant replies. It produces a syntax tree
+ * that is rendered with React elements, never as HTML, so markup in a reply
+ * cannot inject scripts or styles.
+ *
+ * Supported: paragraphs (single newlines are kept as line breaks), headings,
+ * bullet and numbered lists, fenced code blocks, pipe tables, block quotes,
+ * horizontal rules, **bold**, *italic*, `code`, [links](https://...) and bare URLs.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | undefined;
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] }
+  | { type: 'code'; language?: string; text: string }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'rule' };
+
+const FENCE = /^\s*(```|~~~)\s*([\w+#-]*)\s*$/;
+const HEADING = /^\s*(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Code, link, bold, italic, bare URL, line break; the first match wins at each position
+const INLINE_PATTERN = new RegExp(
+  [
+    '`([^`\\n]+)`',
+    '\\[([^\\]\\n]+)\\]\\(([^)\\s]+)\\)',
+    '\\*\\*(.+?)\\*\\*',
+    '__(.+?)__',
+    '\\*(?![\\s*])(.+?)\\*',
+    '(?<!\\w)_(?![\\s_])(.+?)_(?!\\w)',
+    '(https?:\\/\\/[^\\s<]*[^\\s<.,:;"\')\\]])',
+    '(\\n)',
+  ].join('|'),
+  'g'
+);
+
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+/** The URL if it is safe to link to (http, https or mailto), otherwise null */
+export function sanitizeUrl(href: string): string | null {
+  const trimmed = href.trim();
+  return SAFE_URL.test(trimmed) ? trimmed : null;
+}
+
+// -----------------------------------------------------------------------------
+// 1) Inline Parsing
+// -----------------------------------------------------------------------------
+
+/** Parse emphasis, code, links and line breaks within a block of text */
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let cursor = 0;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === 'text') last.text += value;
+    else nodes.push({ type: 'text', text: value });
+  };
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    pushText(text.slice(cursor, index));
+    cursor = index + match[0].length;
+
+    const [, code, linkText, linkHref, strong, strongAlt, emphasis, emphasisAlt, url, newline] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (linkText !== undefined) {
+      const href = sanitizeUrl(linkHref);
+      // Unsafe links keep their text but lose the link
+      if (href) nodes.push({ type: 'link', href, children: parseInline(linkText) });
+      else parseInline(linkText).forEach((node) => (node.type === 'text' ? pushText(node.text) : nodes.push(node)));
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (emphasis !== undefined || emphasisAlt !== undefined) {
+      nodes.push({ type: 'emphasis', children: parseInline(emphasis ?? emphasisAlt) });
+    } else if (url !== undefined) {
+      nodes.push({ type: 'link', href: url, children: [{ type: 'text', text: url }] });
+    } else if (newline !== undefined) {
+      nodes.push({ type: 'break' });
+    }
+  }
+  pushText(text.slice(cursor));
+  return nodes;
+}
+
+// -----------------------------------------------------------------------------
+// 2) Block Parsing
+// -----------------------------------------------------------------------------
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function parseAlign(cell: string): TableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  return left ? 'left' : undefined;
+}
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+/** Parse a Markdown document into blocks */
+export function parseMarkdown(source: string): BlockNode[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      flushParagraph();
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && lines[i].trim() !== fence[1]) body.push(lines[i++]);
+      i++; // Closing fence (or end of input)
+      blocks.push({ type: 'code', language: fence[2] || undefined, text: body.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      flushParagraph();
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseAlign);
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i++]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+      }
+      blocks.push({ type: 'table', align, header: header.map(parseInline), rows });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      flushParagraph();
+      const body: string[] = [];
+      let quoted: RegExpExecArray | null;
+      while (i < lines.length && (quoted = QUOTE.exec(lines[i]))) {
+        body.push(quoted[1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(body.join('\n')) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      flushParagraph();
+      const ordered = /\d/.test(item[1]);
+      const items: string[][] = [];
+      let current: RegExpExecArray | null = item;
+      while (i < lines.length) {
+        current = LIST_ITEM.exec(lines[i]);
+        if (current && /\d/.test(current[1]) === ordered) {
+          items.push([current[2]]);
+        } else if (!current && /^\s+\S/.test(lines[i]) && items.length > 0) {
+          items[items.length - 1].push(lines[i].trim()); // Indented continuation line
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? parseInt(item[1], 10) : 1,
+        items: items.map((itemLines) => parseInline(itemLines.join('\n'))),
+      });
+      continue;
+    }
+
+    paragraph.push(line);
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+}
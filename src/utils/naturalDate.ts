@@ -0,0 +1,132 @@
+/**
+ * naturalDate.ts
+ *
+ * Parses relative date/time phrases such as "tomorrow 3pm", "friday at 14:30"
+ * or "2025-03-04 9am" into concrete dates.
+ */
+
+import { addDays, isValid, set, startOfDay } from 'date-fns';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_ALIASES: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, tues: 2, wed: 3, thu: 4, thur: 4, thurs: 4, fri: 5, sat: 6,
+};
+
+/** Time given to a day without one; "tonight" means the evening */
+const DEFAULT_TIME = { hours: 9, minutes: 0 };
+const TONIGHT_TIME = { hours: 19, minutes: 0 };
+
+export interface NaturalDateMatch {
+  date: Date;
+  text: string;       // Matched source fragment(s), for highlighting
+  hasTime: boolean;
+}
+
+const DATE_PATTERN = new RegExp(
+  [
+    '\\b(today|tonight|tomorrow)\\b',
+    `\\b(?:next\\s+)?(${WEEKDAYS.join('|')}|${Object.keys(WEEKDAY_ALIASES).join('|')})\\b`,
+    '\\b(\\d{4})-(\\d{2})-(\\d{2})\\b',
+    '\\b(\\d{1,2})/(\\d{1,2})(?:/(\\d{4}))?\\b',
+  ].join('|'),
+  'i'
+);
+
+const TIME_PATTERN = /\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b|\b(?:at\s+)?(\d{1,2}):(\d{2})\b|\b(noon|midnight)\b/i;
+
+/** The given calendar day, or null when it does not exist (e.g. 31/02 would roll over to March) */
+function calendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  return isValid(date) && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+function resolveDay(match: RegExpMatchArray, now: Date): Date | null {
+  const today = startOfDay(now);
+  const [, relative, weekday, isoYear, isoMonth, isoDay, slashDay, slashMonth, slashYear] = match;
+
+  if (relative) {
+    return relative.toLowerCase() === 'tomorrow' ? addDays(today, 1) : today;
+  }
+  if (weekday) {
+    const key = weekday.toLowerCase();
+    const target = WEEKDAYS.includes(key) ? WEEKDAYS.indexOf(key) : WEEKDAY_ALIASES[key];
+    const offset = (target - today.getDay() + 7) % 7 || 7;
+    return addDays(today, offset);
+  }
+  if (isoYear) {
+    return calendarDate(Number(isoYear), Number(isoMonth), Number(isoDay));
+  }
+  if (slashDay) {
+    // Day-first, matching the dd/MM format used across the UI
+    const year = slashYear ? Number(slashYear) : today.getFullYear();
+    return calendarDate(year, Number(slashMonth), Number(slashDay));
+  }
+  return null;
+}
+
+function resolveTime(match: RegExpMatchArray): { hours: number; minutes: number } | null {
+  const [, h12, m12, meridiem, h24, m24, named] = match;
+  if (named) {
+    return { hours: named.toLowerCase() === 'noon' ? 12 : 0, minutes: 0 };
+  }
+  if (h12) {
+    let hours = Number(h12) % 12;
+    if (meridiem.toLowerCase() === 'pm') hours += 12;
+    const minutes = m12 ? Number(m12) : 0;
+    return Number(h12) <= 12 && minutes < 60 ? { hours, minutes } : null;
+  }
+  const hours = Number(h24);
+  const minutes = Number(m24);
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+}
+
+/**
+ * Find the first date/time expression in `text`.
+ * A day without a time defaults to 09:00 (19:00 for "tonight"); a time without
+ * a day means the next occurrence of that time (today, or tomorrow if already past).
+ * Returns null when the day does not exist, e.g. 31/02, or when the day and
+ * time resolve to a moment that has already passed, e.g. "today" after 09:00.
+ */
+export function parseNaturalDate(text: string, now: Date = new Date()): NaturalDateMatch | null {
+  const dayMatch = text.match(DATE_PATTERN);
+  const timeMatch = text.match(TIME_PATTERN);
+  const day = dayMatch ? resolveDay(dayMatch, now) : null;
+  const time = timeMatch ? resolveTime(timeMatch) : null;
+
+  // A day that does not exist is an error, not a cue to fall back to today
+  if (dayMatch && !day) return null;
+  if (!day && !time) return null;
+
+  const fragments = [day ? dayMatch?.[0] : null, time ? timeMatch?.[0] : null].filter(Boolean) as string[];
+  const isTonight = dayMatch?.[1]?.toLowerCase() === 'tonight';
+  const { hours, minutes } = time ?? (isTonight ? TONIGHT_TIME : DEFAULT_TIME);
+  let date = set(day ?? startOfDay(now), { hours, minutes, seconds: 0, milliseconds: 0 });
+
+  if (date <= now) {
+    // A past time on an explicit day cannot be booked; the caller has to ask for another
+    if (day) return null;
+    date = addDays(date, 1);
+  }
+
+  return { date, text: fragments.join(' '), hasTime: !!time };
+}
+
+/** Position of a recognized day or time expression */
+export interface DateExpressionSpan {
+  start: number;
+  end: number;
+}
+
+/** Every day and time expression in `text`, in order, for inline highlighting */
+export function findDateExpressions(text: string): DateExpressionSpan[] {
+  const spans: DateExpressionSpan[] = [];
+  const now = new Date();
+
+  for (const match of text.matchAll(new RegExp(DATE_PATTERN.source, 'gi'))) {
+    if (resolveDay(match, now)) spans.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length });
+  }
+  for (const match of text.matchAll(new RegExp(TIME_PATTERN.source, 'gi'))) {
+    if (resolveTime(match)) spans.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length });
+  }
+  return spans.sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,29 @@
+import type { Booking, BookingListParams, BookingPage } from '../services/bookingApi';
+
+/** Sort, filter and slice a full booking list the way the server would */
+export function paginateBookings(bookings: Booking[], params: BookingListParams): BookingPage {
+  const filters = (['customer_name', 'technician_name', 'profession'] as const)
+    .filter((field) => params[field])
+    .map((field) => ({ field, value: (params[field] as string).toLowerCase() }));
+
+  const filtered = bookings.filter((b) =>
+    filters.every(({ field, value }) => b[field].toLowerCase().includes(value)) &&
+    (!params.status || b.status === params.status) &&
+    (!params.ends_after || Date.parse(b.end_time) > Date.parse(params.ends_after)) &&
+    (!params.starts_before || Date.parse(b.start_time) < Date.parse(params.starts_before))
+  );
+  if (params.sort_by) {
+    const key = params.sort_by;
+    const direction = params.sort_order === 'desc' ? -1 : 1;
+    filtered.sort((a, b) => String(a[key]).localeCompare(String(b[key]), undefined, { numeric: true }) * direction);
+  }
+
+  const page = params.page ?? 1;
+  const pageSize = params.page_size ?? (filtered.length || 1);
+  return {
+    items: filtered.slice((page - 1) * pageSize, page * pageSize),
+    total: filtered.length,
+    page,
+    page_size: pageSize,
+  };
+}
@@ -0,0 +1,138 @@
+import { addDays, differenceInCalendarDays, parseISO, set } from 'date-fns';
+import type { Booking } from '../services/bookingApi';
+import { isActiveStatus } from '../services/bookingStatus';
+
+// Hours counted as available when working out idle gaps and utilization
+export const WORK_DAY_START_HOUR = 8;
+export const WORK_DAY_END_HOUR = 18;
+
+export interface TimeSpan {
+  start: Date;
+  end: Date;
+}
+
+export interface ScheduledBooking extends TimeSpan {
+  booking: Booking;
+  overlapsWith: string[];  // IDs of this technician's bookings that overlap it
+}
+
+export interface TechnicianSchedule {
+  technician: string;
+  professions: string[];
+  bookings: ScheduledBooking[];
+  overlaps: TimeSpan[];     // Periods where two or more bookings collide
+  gaps: TimeSpan[];         // Idle periods within working hours
+  busyMinutes: number;      // Booked time within working hours, overlaps counted once
+  workingMinutes: number;
+  utilization: number;      // 0..1
+}
+
+const minutesBetween = (start: Date, end: Date) => Math.max(0, (end.getTime() - start.getTime()) / 60000);
+
+/** Working-hour windows for every day in the range */
+export function getWorkingWindows(range: TimeSpan): TimeSpan[] {
+  const days = differenceInCalendarDays(range.end, range.start) + 1;
+  const windows: TimeSpan[] = [];
+  for (let i = 0; i < days; i++) {
+    const day = addDays(range.start, i);
+    const start = set(day, { hours: WORK_DAY_START_HOUR, minutes: 0, seconds: 0, milliseconds: 0 });
+    const end = set(day, { hours: WORK_DAY_END_HOUR, minutes: 0, seconds: 0, milliseconds: 0 });
+    const clipped = { start: start < range.start ? range.start : start, end: end > range.end ? range.end : end };
+    if (clipped.end > clipped.start) windows.push(clipped);
+  }
+  return windows;
+}
+
+/** Merge overlapping or touching spans into a sorted, disjoint list */
+function mergeSpans(spans: TimeSpan[]): TimeSpan[] {
+  const sorted = [...spans].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const merged: TimeSpan[] = [];
+  sorted.forEach((span) => {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      if (span.end > last.end) last.end = span.end;
+    } else {
+      merged.push({ ...span });
+    }
+  });
+  return merged;
+}
+
+/** Parts of `window` not covered by any of the merged `busy` spans */
+function subtractSpans(window: TimeSpan, busy: TimeSpan[]): TimeSpan[] {
+  const free: TimeSpan[] = [];
+  let cursor = window.start;
+  busy.forEach((span) => {
+    if (span.end <= cursor || span.start >= window.end) return;
+    if (span.start > cursor) free.push({ start: cursor, end: span.start });
+    if (span.end > cursor) cursor = span.end;
+  });
+  if (cursor < window.end) free.push({ start: cursor, end: window.end });
+  return free;
+}
+
+/** Length of the parts of `spans` (disjoint) that fall inside `windows` */
+function minutesWithin(spans: TimeSpan[], windows: TimeSpan[]): number {
+  return windows.reduce((total, window) => total + spans.reduce((sum, span) => {
+    const start = span.start > window.start ? span.start : window.start;
+    const end = span.end < window.end ? span.end : window.end;
+    return sum + minutesBetween(start, end);
+  }, 0), 0);
+}
+
+/**
+ * One schedule per technician with bookings in `range`: their bookings,
+ * collisions between them, idle gaps in working hours and utilization.
+ * Cancelled and no-show bookings free their time and are left out.
+ */
+export function buildTechnicianSchedules(bookings: Booking[], range: TimeSpan): TechnicianSchedule[] {
+  const windows = getWorkingWindows(range);
+  const workingMinutes = windows.reduce((sum, window) => sum + minutesBetween(window.start, window.end), 0);
+  const byTechnician = new Map<string, Booking[]>();
+  bookings.forEach((booking) => {
+    const start = parseISO(booking.start_time);
+    const end = parseISO(booking.end_time);
+    if (start >= range.end || end <= range.start || !isActiveStatus(booking.status)) return;
+    byTechnician.set(booking.technician_name, [...(byTechnician.get(booking.technician_name) ?? []), booking]);
+  });
+
+  return Array.from(byTechnician.entries())
+    .map(([technician, own]) => {
+      const scheduled: ScheduledBooking[] = own
+        .map((booking) => ({ booking, start: parseISO(booking.start_time), end: parseISO(booking.end_time), overlapsWith: [] as string[] }))
+        .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+      const overlaps: TimeSpan[] = [];
+      scheduled.forEach((a, i) => {
+        scheduled.slice(i + 1).forEach((b) => {
+          if (b.start >= a.end) return;
+          a.overlapsWith.push(b.booking.id);
+          b.overlapsWith.push(a.booking.id);
+          overlaps.push({ start: b.start, end: b.end < a.end ? b.end : a.end });
+        });
+      });
+
+      const busy = mergeSpans(scheduled);
+      const busyMinutes = minutesWithin(busy, windows);
+      return {
+        technician,
+        professions: Array.from(new Set(own.map((b) => b.profession))).sort(),
+        bookings: scheduled,
+        overlaps: mergeSpans(overlaps),
+        gaps: windows.flatMap((window) => subtractSpans(window, busy)),
+        busyMinutes,
+        workingMinutes,
+        utilization: workingMinutes > 0 ? busyMinutes / workingMinutes : 0,
+      };
+    })
+    .sort((a, b) => a.technician.localeCompare(b.technician));
+}
+
+/** "1h 30m", "45m", "2h" */
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
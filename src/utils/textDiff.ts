@@ -0,0 +1,44 @@
+/**
+ * textDiff.ts
+ *
+ * Line-based diff (longest common subsequence), used to compare a replayed
+ * chat reply with the one recorded in a transcript.
+ */
+
+export type DiffKind = 'same' | 'removed' | 'added';
+
+export interface DiffLine {
+  kind: DiffKind;
+  text: string;
+}
+
+/** Lines of `before` and `after` in order, marked as kept, removed or added */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      result.push({ kind: 'same', text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ kind: 'removed', text: before[i++] });
+    } else {
+      result.push({ kind: 'added', text: after[j++] });
+    }
+  }
+  before.slice(i).forEach((text) => result.push({ kind: 'removed', text }));
+  after.slice(j).forEach((text) => result.push({ kind: 'added', text }));
+  return result;
+}
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_BOOKING_API_URL?: string;
+  readonly VITE_AUTH_ENABLED?: string;
+  readonly VITE_USE_MOCK_API?: string;
+  readonly VITE_API_MAX_RETRIES?: string;
+  readonly VITE_UNDO_GRACE_PERIOD_MS?: string;
+  readonly VITE_STREAM_COMMANDS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}